@@ -0,0 +1,84 @@
+import type { MistralMessage, Tool, ToolChoice } from '../mistral.js';
+import {
+  mistralFetch,
+  readServerSentEvents,
+  type ChatCompletionChunk,
+  type ChatCompletionResponse,
+  type MistralRequestOptions,
+  type Prediction,
+  type ResponseFormat,
+} from './mistralApi.js';
+
+// The agent's model, instructions, sampling settings and built-in tools are configured on
+// Mistral's side; these options only add to or override them for one request
+export type AgentCompletionOptions = MistralRequestOptions & {
+  agentId: string;
+  messages: MistralMessage[];
+  maxTokens?: number;
+  stop?: string[];
+  random_seed?: number;
+  response_format?: ResponseFormat;
+  tools?: Tool[];
+  tool_choice?: ToolChoice;
+  parallel_tool_calls?: boolean;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  n?: number;
+  prediction?: Prediction;
+};
+
+// Agent responses and stream chunks have the same shape as chat completions
+export type AgentCompletionResponse = ChatCompletionResponse;
+export type AgentCompletionChunk = ChatCompletionChunk;
+
+export function buildAgentCompletionBody(options: AgentCompletionOptions, stream: boolean): Record<string, unknown> {
+  return {
+    agent_id: options.agentId,
+    messages: options.messages,
+    max_tokens: options.maxTokens,
+    stop: options.stop?.length ? options.stop : undefined,
+    random_seed: options.random_seed,
+    response_format: options.response_format,
+    presence_penalty: options.presence_penalty,
+    frequency_penalty: options.frequency_penalty,
+    n: options.n,
+    prediction: options.prediction,
+    stream,
+    ...(options.tools?.length
+      ? {
+          tools: options.tools,
+          tool_choice: options.tool_choice,
+          parallel_tool_calls: options.parallel_tool_calls,
+        }
+      : {}),
+  };
+}
+
+export async function createAgentCompletion(options: AgentCompletionOptions): Promise<AgentCompletionResponse> {
+  const response = await mistralFetch('/agents/completions', options, {
+    body: buildAgentCompletionBody(options, false),
+  });
+
+  return (await response.json()) as AgentCompletionResponse;
+}
+
+export async function* streamAgentCompletion(options: AgentCompletionOptions): AsyncGenerator<AgentCompletionChunk> {
+  const response = await mistralFetch('/agents/completions', options, {
+    body: buildAgentCompletionBody(options, true),
+  });
+
+  if (!response.body) {
+    throw new Error('No response body');
+  }
+
+  for await (const dataContent of readServerSentEvents(response.body, options.signal)) {
+    let chunk: AgentCompletionChunk;
+    try {
+      chunk = JSON.parse(dataContent);
+    } catch (e) {
+      console.error('Error parsing JSON from stream:', e);
+      continue;
+    }
+    yield chunk;
+  }
+}
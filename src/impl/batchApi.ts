@@ -0,0 +1,169 @@
+import { downloadFile, uploadFile } from './filesApi.js';
+import { mistralFetch, sleep, type MistralRequestOptions } from './mistralApi.js';
+
+export type BatchEndpoint = '/v1/chat/completions' | '/v1/embeddings' | '/v1/fim/completions' | '/v1/moderations';
+
+export type BatchJobStatus =
+  | 'QUEUED'
+  | 'RUNNING'
+  | 'SUCCESS'
+  | 'FAILED'
+  | 'TIMEOUT_EXCEEDED'
+  | 'CANCELLATION_REQUESTED'
+  | 'CANCELLED';
+
+export type BatchJob = {
+  id: string;
+  object: 'batch';
+  input_files: string[];
+  endpoint: BatchEndpoint;
+  model: string;
+  metadata?: Record<string, string> | null;
+  errors: { message: string; count?: number }[];
+  status: BatchJobStatus;
+  created_at: number;
+  started_at?: number | null;
+  completed_at?: number | null;
+  total_requests: number;
+  completed_requests: number;
+  succeeded_requests: number;
+  failed_requests: number;
+  output_file?: string | null;
+  error_file?: string | null;
+};
+
+// One line of a batch input file: the body of a request to the job's endpoint, without the model
+export type BatchRequest = {
+  custom_id: string;
+  body: Record<string, unknown>;
+};
+
+// One line of a batch output or error file
+export type BatchResultLine = {
+  id: string;
+  custom_id: string;
+  response?: { status_code: number; body: unknown } | null;
+  error?: { message: string; code?: string | number } | null;
+};
+
+// A result in the order of the requests, whether or not it succeeded
+export type BatchResult = {
+  customId: string;
+  statusCode: number | null;
+  body: unknown;
+  error: string | null;
+};
+
+export type CreateBatchJobOptions = MistralRequestOptions & {
+  inputFiles: string[];
+  endpoint: BatchEndpoint;
+  model: string;
+  metadata?: Record<string, string>;
+  timeoutHours?: number;
+};
+
+const finishedStatuses: BatchJobStatus[] = ['SUCCESS', 'FAILED', 'TIMEOUT_EXCEEDED', 'CANCELLED'];
+
+export function isBatchJobFinished(job: BatchJob): boolean {
+  return finishedStatuses.includes(job.status);
+}
+
+/** Uploads the requests as a JSONL batch file and returns its file id. */
+export async function uploadBatchRequests(options: MistralRequestOptions, requests: BatchRequest[]): Promise<string> {
+  const ids = new Set<string>();
+  for (const request of requests) {
+    if (ids.has(request.custom_id)) {
+      throw new Error(`Duplicate batch custom id "${request.custom_id}". Every request needs a unique id.`);
+    }
+    ids.add(request.custom_id);
+  }
+
+  const jsonl = requests.map((request) => JSON.stringify(request)).join('\n');
+  const file = await uploadFile({
+    ...options,
+    file: new Blob([jsonl], { type: 'application/jsonl' }),
+    filename: `batch-${Date.now()}.jsonl`,
+    purpose: 'batch',
+  });
+  return file.id;
+}
+
+export async function createBatchJob(options: CreateBatchJobOptions): Promise<BatchJob> {
+  const response = await mistralFetch('/batch/jobs', options, {
+    body: {
+      input_files: options.inputFiles,
+      endpoint: options.endpoint,
+      model: options.model,
+      metadata: options.metadata,
+      timeout_hours: options.timeoutHours,
+    },
+  });
+  return (await response.json()) as BatchJob;
+}
+
+export async function getBatchJob(options: MistralRequestOptions, jobId: string): Promise<BatchJob> {
+  const response = await mistralFetch(`/batch/jobs/${encodeURIComponent(jobId)}`, options, { method: 'GET' });
+  return (await response.json()) as BatchJob;
+}
+
+export async function cancelBatchJob(options: MistralRequestOptions, jobId: string): Promise<BatchJob> {
+  const response = await mistralFetch(`/batch/jobs/${encodeURIComponent(jobId)}/cancel`, options, {});
+  return (await response.json()) as BatchJob;
+}
+
+/**
+ * Polls a batch job until it has finished, calling `onStatus` with each update. Aborting the
+ * signal stops waiting, but leaves the job running.
+ */
+export async function waitForBatchJob(
+  options: MistralRequestOptions,
+  jobId: string,
+  intervalMs: number,
+  onStatus?: (job: BatchJob) => void,
+): Promise<BatchJob> {
+  for (;;) {
+    const job = await getBatchJob(options, jobId);
+    onStatus?.(job);
+    if (isBatchJobFinished(job)) {
+      return job;
+    }
+
+    await sleep(intervalMs, options.signal);
+  }
+}
+
+function parseJsonl<T>(text: string): T[] {
+  return text
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as T);
+}
+
+/**
+ * Downloads the results of a finished job, in the order of the requests in its input file.
+ * Requests that have no result, e.g. because the job was cancelled, get an error.
+ */
+export async function getBatchResults(options: MistralRequestOptions, job: BatchJob): Promise<BatchResult[]> {
+  const readLines = async <T>(fileId: string | null | undefined): Promise<T[]> =>
+    fileId ? parseJsonl<T>(await (await downloadFile(options, fileId)).text()) : [];
+
+  const requests = (await Promise.all(job.input_files.map((fileId) => readLines<BatchRequest>(fileId)))).flat();
+  const lines = [...(await readLines<BatchResultLine>(job.output_file)), ...(await readLines<BatchResultLine>(job.error_file))];
+  const linesById = new Map(lines.map((line) => [line.custom_id, line]));
+
+  return requests.map(({ custom_id }): BatchResult => {
+    const line = linesById.get(custom_id);
+    if (!line) {
+      return { customId: custom_id, statusCode: null, body: null, error: `No result (job ${job.status.toLowerCase()})` };
+    }
+
+    const statusCode = line.response?.status_code ?? null;
+    const failed = !!line.error || (statusCode !== null && statusCode >= 400);
+    return {
+      customId: custom_id,
+      statusCode,
+      body: line.response?.body ?? null,
+      error: failed ? line.error?.message ?? JSON.stringify(line.response?.body) : null,
+    };
+  });
+}
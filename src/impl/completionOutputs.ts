@@ -0,0 +1,174 @@
+import type { NodeOutputDefinition, Outputs, PortId } from '@ironclad/rivet-core';
+import {
+  convertFromMistralMessage,
+  createAssistantMessage,
+  mergeToolCallDeltas,
+  parseToolCall,
+  tryParseToolCall,
+  type MistralMessage,
+  type ToolCall,
+} from '../mistral.js';
+import type { ChatCompletionChunk } from './mistralApi.js';
+
+// Shared by the chat and agent nodes, whose replies have the same shape
+
+export type TokenUsage = {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+};
+
+// A reply read from a stream. The finish reason is 'aborted' when the run was cancelled.
+export type StreamedCompletion = {
+  // The first choice
+  content: string;
+  // Every choice, when more than one was requested
+  responses: string[];
+  toolCalls: ToolCall[];
+  finishReason: string | null;
+  id?: string;
+  model?: string;
+  // Unset if the API did not report usage
+  usage?: TokenUsage;
+  aborted: boolean;
+};
+
+export const completionInfoOutputDefinitions: NodeOutputDefinition[] = [
+  {
+    id: 'finishReason' as PortId,
+    title: 'Finish Reason',
+    dataType: 'string',
+    description: 'Why the model stopped: stop, length (Max Tokens reached), model_length (context full), tool_calls, error, or aborted.',
+  },
+  {
+    id: 'requestId' as PortId,
+    title: 'Request ID',
+    dataType: 'string',
+    description: 'The id of the completion, for support requests. The last one if the reply was continued.',
+  },
+  {
+    id: 'responseModel' as PortId,
+    title: 'Response Model',
+    dataType: 'string',
+    description: 'The model that actually answered, e.g. the dated version behind a -latest alias.',
+  },
+];
+
+/**
+ * Reads a completion stream, calling `onUpdate` whenever the first choice gets more content or
+ * tool calls. If the signal is aborted, the reply so far is returned with the finish reason
+ * 'aborted'; tool calls cut off by the abort have incomplete arguments, so they are dropped.
+ */
+export async function readCompletionStream(
+  chunks: AsyncIterable<ChatCompletionChunk>,
+  signal: AbortSignal | undefined,
+  onUpdate?: (completion: StreamedCompletion) => void,
+): Promise<StreamedCompletion> {
+  const choiceParts: string[][] = [[]];
+  const completion: StreamedCompletion = {
+    content: '',
+    responses: [],
+    toolCalls: [],
+    finishReason: null,
+    aborted: false,
+  };
+  const update = () => {
+    completion.responses = Array.from(choiceParts, (parts) => parts?.join('') ?? '');
+    completion.content = completion.responses[0] ?? '';
+  };
+
+  try {
+    for await (const chunk of chunks) {
+      if (chunk.usage?.total_tokens) {
+        completion.usage = chunk.usage;
+      }
+      completion.id ??= chunk.id;
+      completion.model ??= chunk.model;
+
+      let changed = false;
+      for (const choice of chunk.choices) {
+        if (choice.delta?.content) {
+          (choiceParts[choice.index] ??= []).push(choice.delta.content);
+          changed ||= choice.index === 0;
+        }
+        if (choice.index === 0 && choice.delta?.tool_calls?.length) {
+          completion.toolCalls = mergeToolCallDeltas(completion.toolCalls, choice.delta.tool_calls);
+          changed = true;
+        }
+        // Sent with the last chunk of each choice
+        if (choice.index === 0 && choice.finish_reason) {
+          completion.finishReason = choice.finish_reason;
+        }
+      }
+
+      if (changed) {
+        update();
+        onUpdate?.(completion);
+      }
+    }
+  } catch (error) {
+    if (!signal?.aborted) {
+      throw error;
+    }
+    completion.aborted = true;
+    completion.toolCalls = [];
+    completion.finishReason = 'aborted';
+  }
+
+  update();
+  return completion;
+}
+
+/**
+ * Sets the response, message, messages and, when tool calling is on, function-calls outputs.
+ * While streaming (`partial`), calls whose arguments are still incomplete are left out.
+ */
+export function setResponseOutputs(
+  output: Outputs,
+  messages: MistralMessage[],
+  content: string,
+  toolCalls: ToolCall[],
+  includeFunctionCalls: boolean,
+  partial = false,
+): void {
+  const assistantMessage = createAssistantMessage(content, toolCalls);
+
+  output['response' as PortId] = {
+    type: 'string',
+    value: content,
+  };
+
+  output['message' as PortId] = {
+    type: 'chat-message',
+    value: assistantMessage,
+  };
+
+  output['messages' as PortId] = {
+    type: 'chat-message[]',
+    value: [
+      ...messages.map(convertFromMistralMessage),
+      assistantMessage,
+    ],
+  };
+
+  if (includeFunctionCalls) {
+    const functionCalls = partial
+      ? toolCalls.flatMap((toolCall) => tryParseToolCall(toolCall) ?? [])
+      : toolCalls.map(parseToolCall);
+
+    // Excluding the port when there are no calls lets graphs branch on whether the model called a tool
+    output['function-calls' as PortId] = functionCalls.length
+      ? { type: 'object[]', value: functionCalls }
+      : { type: 'control-flow-excluded', value: undefined };
+  }
+}
+
+export function setCompletionInfoOutputs(
+  output: Outputs,
+  completion: { finishReason: string | null; id?: string; model?: string },
+  requestedModel: string,
+): void {
+  output['finishReason' as PortId] = { type: 'string', value: completion.finishReason ?? '' };
+  output['requestId' as PortId] = { type: 'string', value: completion.id ?? '' };
+  output['responseModel' as PortId] = { type: 'string', value: completion.model || requestedModel };
+}
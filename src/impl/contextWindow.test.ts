@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { MistralMessage } from '../mistral.js';
+import { dropOldestMessages, keepFirstAndLastMessages, summarizeOldestMessages } from './contextWindow.js';
+import type { MistralTokenizer } from './tokenizer.js';
+
+// One token per character keeps the budgets easy to work out
+const tokenizer: MistralTokenizer = { family: 'tekken', exact: true, countTokens: (text) => text.length };
+
+const system = (content = 'Be brief.'): MistralMessage => ({ role: 'system', content });
+const user = (content: string): MistralMessage => ({ role: 'user', content });
+const assistant = (content: string): MistralMessage => ({ role: 'assistant', content });
+const toolCall = (id: string): MistralMessage => ({
+  role: 'assistant',
+  content: '',
+  tool_calls: [{ id, type: 'function', function: { name: 'search', arguments: '{}' } }],
+});
+const toolResult = (id: string, content = 'result'): MistralMessage => ({ role: 'tool', content, tool_call_id: id });
+
+const contents = (messages: MistralMessage[]) => messages.map((message) => `${message.role}:${message.content}`);
+
+describe('dropOldestMessages', () => {
+  it('keeps everything when the prompt fits', () => {
+    const messages = [system(), user('Hi'), assistant('Hello')];
+    const fit = dropOldestMessages(tokenizer, messages, undefined, 1000);
+    assert.deepEqual(fit.messages, messages);
+    assert.deepEqual(fit.dropped, []);
+  });
+
+  it('drops the oldest turns but keeps the system message', () => {
+    const messages = [system(), user('a'.repeat(100)), assistant('b'.repeat(100)), user('Latest')];
+    const fit = dropOldestMessages(tokenizer, messages, undefined, 50);
+    assert.deepEqual(contents(fit.messages), ['system:Be brief.', 'user:Latest']);
+    assert.equal(fit.dropped.length, 2);
+    assert.ok(fit.promptTokens <= 50);
+  });
+
+  it('drops a tool call together with its results', () => {
+    const messages = [user('a'.repeat(100)), toolCall('1'), toolResult('1'), toolResult('1'), assistant('Done'), user('Next')];
+    const fit = dropOldestMessages(tokenizer, messages, undefined, 50);
+    assert.deepEqual(contents(fit.messages), ['user:Next']);
+  });
+
+  it('keeps a trailing tool result with its tool call', () => {
+    const messages = [system(), user('a'.repeat(1000)), toolCall('1'), toolResult('1')];
+    const fit = dropOldestMessages(tokenizer, messages, undefined, 100);
+    assert.deepEqual(fit.messages.map((message) => message.role), ['system', 'assistant', 'tool']);
+  });
+
+  it('throws when the latest message does not fit on its own', () => {
+    assert.throws(
+      () => dropOldestMessages(tokenizer, [system(), user('Hi'), toolCall('1'), toolResult('1', 'r'.repeat(500))], undefined, 100),
+      /only 100 are available.*tool result/,
+    );
+  });
+});
+
+describe('keepFirstAndLastMessages', () => {
+  const conversation = [system(), user('1'), assistant('2'), user('3'), assistant('4'), user('5'), assistant('6'), user('7')];
+
+  it('keeps the first and last messages and the system message', () => {
+    const fit = keepFirstAndLastMessages(tokenizer, conversation, undefined, 1000, 1, 2);
+    assert.deepEqual(contents(fit.messages), ['system:Be brief.', 'user:1', 'user:7']);
+    assert.deepEqual(contents(fit.dropped), ['assistant:2', 'user:3', 'assistant:4', 'user:5', 'assistant:6']);
+  });
+
+  it('starts the kept tail at a user message', () => {
+    const fit = keepFirstAndLastMessages(tokenizer, conversation, undefined, 1000, 1, 4);
+    assert.deepEqual(contents(fit.messages), ['system:Be brief.', 'user:1', 'user:5', 'assistant:6', 'user:7']);
+  });
+
+  it('keeps everything when first and last overlap', () => {
+    const fit = keepFirstAndLastMessages(tokenizer, conversation, undefined, 1000, 4, 4);
+    assert.deepEqual(fit.messages, conversation);
+    assert.deepEqual(fit.dropped, []);
+  });
+
+  it('drops a tool call at the end of the head with its results', () => {
+    const messages = [user('1'), toolCall('a'), toolResult('a'), assistant('2'), user('3'), assistant('4'), user('5')];
+    const fit = keepFirstAndLastMessages(tokenizer, messages, undefined, 1000, 2, 1);
+    assert.deepEqual(fit.messages.map((message) => message.role), ['user', 'user']);
+    assert.equal(fit.dropped.filter((message) => message.role === 'tool').length, 1);
+  });
+
+  it('keeps a trailing tool result with its tool call', () => {
+    const messages = [user('1'), assistant('2'), user('3'), toolCall('a'), toolResult('a')];
+    const fit = keepFirstAndLastMessages(tokenizer, messages, undefined, 1000, 1, 1);
+    assert.deepEqual(fit.messages.map((message) => message.role), ['user', 'assistant', 'tool']);
+    assert.ok(fit.messages[1]!.tool_calls?.length);
+  });
+
+  it('throws when what is kept does not fit', () => {
+    assert.throws(
+      () => keepFirstAndLastMessages(tokenizer, [user('a'.repeat(200)), assistant('b'), user('c')], undefined, 100, 1, 1),
+      /The first 1 and last 1 messages need \d+ tokens, but only 100 are available/,
+    );
+  });
+});
+
+describe('summarizeOldestMessages', () => {
+  it('adds the summary after the system messages', async () => {
+    const messages = [system(), user('a'.repeat(300)), assistant('b'.repeat(300)), user('Latest')];
+    const fit = await summarizeOldestMessages(tokenizer, messages, undefined, 200, async () => 'They talked.');
+    assert.deepEqual(contents(fit.messages), [
+      'system:Be brief.',
+      'system:Summary of the earlier conversation:\nThey talked.',
+      'user:Latest',
+    ]);
+    assert.equal(fit.dropped.length, 2);
+  });
+
+  it('does not summarize when nothing is dropped', async () => {
+    let calls = 0;
+    const messages = [user('Hi')];
+    const fit = await summarizeOldestMessages(tokenizer, messages, undefined, 1000, async () => `${++calls}`);
+    assert.deepEqual(fit.messages, messages);
+    assert.equal(calls, 0);
+  });
+
+  it('summarizes in parts that fit the summary model', async () => {
+    const messages = [user('a'.repeat(400)), assistant('b'.repeat(400)), user('c'.repeat(400)), user('Latest')];
+    const transcripts: string[] = [];
+    await summarizeOldestMessages(tokenizer, messages, undefined, 400, async (transcript) => {
+      transcripts.push(transcript);
+      return `summary ${transcripts.length}`;
+    }, 1000);
+
+    // 1000 tokens, less room for the summary so far, the reply and the instructions
+    assert.ok(transcripts.length > 1);
+    assert.ok(transcripts.every((transcript) => transcript.length <= 1000 - 2 * 100 - 256 + 40));
+    assert.match(transcripts[1]!, /^Summary so far:\nsummary 1\n/);
+  });
+});
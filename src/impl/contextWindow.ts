@@ -0,0 +1,186 @@
+import { getContentText, type MistralMessage, type Tool } from '../mistral.js';
+import { countMessageTokens, type MistralTokenizer } from './tokenizer.js';
+
+export type ContextOverflowStrategy = 'warn' | 'fail' | 'truncate' | 'keepFirstLast' | 'summarize';
+
+export type ContextFit = {
+  messages: MistralMessage[];
+  promptTokens: number;
+  dropped: MistralMessage[];
+};
+
+// How much of the budget a summary of the dropped messages may take up, at most
+const MAX_SUMMARY_TOKENS = 1024;
+
+function isTurnStart(message: MistralMessage): boolean {
+  return message.role === 'user' || message.role === 'system';
+}
+
+// Where the block holding the message at `index` starts: an assistant message with tool calls
+// and its tool results make one block, which Mistral rejects if split
+function blockStart(messages: MistralMessage[], index: number): number {
+  while (index > 0 && messages[index]?.role === 'tool') {
+    index--;
+  }
+  return index;
+}
+
+/**
+ * Drops the oldest messages until the prompt fits in `budget` tokens. System messages and the
+ * latest message are always kept, tool results go together with the call they answer, and the
+ * conversation is kept starting with a user message where possible. Throws if it can't be made
+ * to fit.
+ */
+export function dropOldestMessages(
+  tokenizer: MistralTokenizer,
+  messages: MistralMessage[],
+  tools: Tool[] | undefined,
+  budget: number,
+): ContextFit {
+  const kept = [...messages];
+  const dropped: MistralMessage[] = [];
+  let promptTokens = countMessageTokens(tokenizer, kept, tools);
+
+  // The latest message, together with the call it answers if it is a tool result
+  const lastBlockStart = () => blockStart(kept, kept.length - 1);
+  const firstDroppable = () => kept.findIndex((message, i) => message.role !== 'system' && i < lastBlockStart());
+
+  while (promptTokens > budget) {
+    const index = firstDroppable();
+    if (index < 0) {
+      throw new Error(
+        `The prompt needs ${promptTokens} tokens even after dropping all earlier messages, but only ${budget} are available. Shorten the latest message${kept[kept.length - 1]?.role === 'tool' ? ' (a tool result, which is kept with its tool call)' : ''} or the system prompt, or lower Max Tokens.`,
+      );
+    }
+
+    dropped.push(...kept.splice(index, 1));
+    // Don't leave tool results or replies without what came before them
+    while (index < lastBlockStart() && !isTurnStart(kept[index]!)) {
+      dropped.push(...kept.splice(index, 1));
+    }
+    promptTokens = countMessageTokens(tokenizer, kept, tools);
+  }
+
+  return { messages: kept, promptTokens, dropped };
+}
+
+/**
+ * Keeps system messages, the first `first` and the last `last` other messages, and drops the
+ * ones in between. Tool calls are never separated from their results: the kept head gives up a
+ * call whose results would be dropped, and the kept tail starts at a user message.
+ * Throws if what is kept still doesn't fit in `budget` tokens.
+ */
+export function keepFirstAndLastMessages(
+  tokenizer: MistralTokenizer,
+  messages: MistralMessage[],
+  tools: Tool[] | undefined,
+  budget: number,
+  first: number,
+  last: number,
+): ContextFit {
+  const turns = messages.map((message, index) => ({ message, index })).filter(({ message }) => message.role !== 'system');
+
+  const turnMessages = turns.map(({ message }) => message);
+
+  // A head that ends in a tool call gives it up, along with the results that would be dropped
+  const headEnd = blockStart(turnMessages, first);
+  let tailStart = Math.max(turns.length - Math.max(last, 1), first);
+  while (tailStart < turns.length - 1 && !isTurnStart(turns[tailStart]!.message)) {
+    tailStart++;
+  }
+  // Only moves when the latest message is a tool result
+  tailStart = blockStart(turnMessages, tailStart);
+  const droppedIndexes = new Set(turns.slice(headEnd, tailStart).map(({ index }) => index));
+
+  const kept = messages.filter((_, index) => !droppedIndexes.has(index));
+  const promptTokens = countMessageTokens(tokenizer, kept, tools);
+  if (promptTokens > budget) {
+    throw new Error(
+      `The first ${first} and last ${last} messages need ${promptTokens} tokens, but only ${budget} are available. Keep fewer messages or lower Max Tokens.`,
+    );
+  }
+
+  return {
+    messages: kept,
+    promptTokens,
+    dropped: messages.filter((_, index) => droppedIndexes.has(index)),
+  };
+}
+
+// Room for the summary request's instructions and the "summary so far" header
+const SUMMARY_PROMPT_TOKENS = 256;
+
+function formatTranscriptEntry(message: MistralMessage): string {
+  return `${message.role}: ${getContentText(message.content)}${message.tool_calls?.length ? ` ${JSON.stringify(message.tool_calls.map((call) => call.function))}` : ''}`;
+}
+
+// Splits transcript entries into parts of at most `maxTokens`, cutting short any entry that is longer on its own
+function chunkTranscript(tokenizer: MistralTokenizer, entries: string[], maxTokens: number): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  for (let entry of entries) {
+    let tokens = tokenizer.countTokens(entry);
+    if (tokens > maxTokens) {
+      entry = entry.slice(0, Math.floor((entry.length * maxTokens) / tokens));
+      tokens = maxTokens;
+    }
+    if (current.length && currentTokens + tokens > maxTokens) {
+      chunks.push(current.join('\n\n'));
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(entry);
+    currentTokens += tokens;
+  }
+
+  if (current.length) {
+    chunks.push(current.join('\n\n'));
+  }
+  return chunks;
+}
+
+/**
+ * Replaces the oldest messages with a summary, made by `summarize`, keeping as many recent
+ * messages as fit alongside it. The summary is added as a system message after any existing ones.
+ * When the dropped messages don't fit in `summaryContextLength`, the summary model's context, they
+ * are summarized in parts, each along with the summary of the parts before it.
+ */
+export async function summarizeOldestMessages(
+  tokenizer: MistralTokenizer,
+  messages: MistralMessage[],
+  tools: Tool[] | undefined,
+  budget: number,
+  summarize: (transcript: string, maxTokens: number) => Promise<string>,
+  summaryContextLength?: number,
+): Promise<ContextFit> {
+  const summaryTokens = Math.min(MAX_SUMMARY_TOKENS, Math.floor(budget / 4));
+  const fit = dropOldestMessages(tokenizer, messages, tools, budget - summaryTokens);
+  if (!fit.dropped.length) {
+    return fit;
+  }
+
+  // Each request holds a part of the transcript, the summary so far and the reply
+  const transcriptTokens = summaryContextLength
+    ? Math.max(summaryContextLength - 2 * summaryTokens - SUMMARY_PROMPT_TOKENS, summaryTokens)
+    : Infinity;
+  let summary = '';
+  for (const chunk of chunkTranscript(tokenizer, fit.dropped.map(formatTranscriptEntry), transcriptTokens)) {
+    summary = await summarize(summary ? `Summary so far:\n${summary}\n\nContinued:\n${chunk}` : chunk, summaryTokens);
+  }
+
+  const systemCount = fit.messages.findIndex((message) => message.role !== 'system');
+  const insertAt = systemCount < 0 ? fit.messages.length : systemCount;
+  const summarized: MistralMessage[] = [
+    ...fit.messages.slice(0, insertAt),
+    { role: 'system', content: `Summary of the earlier conversation:\n${summary}` },
+    ...fit.messages.slice(insertAt),
+  ];
+
+  return {
+    messages: summarized,
+    promptTokens: countMessageTokens(tokenizer, summarized, tools),
+    dropped: fit.dropped,
+  };
+}
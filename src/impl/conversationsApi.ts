@@ -0,0 +1,154 @@
+import { mistralFetch, type MistralRequestOptions } from './mistralApi.js';
+
+// Tools that run on Mistral's side; their results come back as entries in the conversation
+export type BuiltInConnector =
+  | { type: 'web_search' }
+  | { type: 'web_search_premium' }
+  | { type: 'code_interpreter' }
+  | { type: 'image_generation' }
+  | { type: 'document_library'; library_ids: string[] };
+
+export type ConversationContentChunk =
+  | { type: 'text'; text: string }
+  // A source the answer is grounded in, e.g. a web page or a library document
+  | { type: 'tool_reference'; tool: string; title: string; url?: string | null; favicon?: string | null; description?: string | null }
+  // A file made by a tool, e.g. a generated image; download it through the files API
+  | { type: 'tool_file'; tool: string; file_id: string; file_name?: string | null; file_type?: string | null }
+  | { type: 'image_url'; image_url: string | { url: string } }
+  | { type: 'document_url'; document_url: string; document_name?: string | null };
+
+type EntryBase = {
+  object: 'entry';
+  id: string;
+  created_at: string;
+  completed_at?: string | null;
+};
+
+export type ConversationEntry =
+  | (EntryBase & {
+      type: 'message.input';
+      role: 'user' | 'assistant';
+      content: string | ConversationContentChunk[];
+    })
+  | (EntryBase & {
+      type: 'message.output';
+      role: 'assistant';
+      content: string | ConversationContentChunk[];
+      model?: string | null;
+      agent_id?: string | null;
+    })
+  | (EntryBase & {
+      type: 'tool.execution';
+      name: string;
+      arguments?: string;
+      info?: Record<string, unknown>;
+    })
+  | (EntryBase & {
+      type: 'function.call';
+      tool_call_id: string;
+      name: string;
+      arguments: string;
+    })
+  | (EntryBase & {
+      type: 'agent.handoff';
+      previous_agent_id: string;
+      next_agent_id: string;
+    });
+
+// What is sent as input: a user message, or earlier messages to replay
+export type ConversationInput =
+  | string
+  | { type: 'message.input'; role: 'user' | 'assistant'; content: string | ConversationContentChunk[] }[];
+
+export type ConversationCompletionArgs = {
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  random_seed?: number;
+};
+
+export type ConversationUsage = {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  connector_tokens?: number | null;
+  // Number of calls to each connector, e.g. { web_search: 2 }
+  connectors?: Record<string, number> | null;
+};
+
+export type ConversationResponse = {
+  object: 'conversation.response';
+  conversation_id: string;
+  // Only the entries produced by this request
+  outputs: ConversationEntry[];
+  usage: ConversationUsage;
+};
+
+// Settings shared by every way of continuing a conversation
+type ConversationRequestOptions = MistralRequestOptions & {
+  inputs: ConversationInput;
+  completionArgs?: ConversationCompletionArgs;
+  // Whether Mistral keeps the conversation, so that it can be appended to or restarted later
+  store?: boolean;
+};
+
+export type StartConversationOptions = ConversationRequestOptions & {
+  // Either a model or an agent answers
+  model?: string;
+  agentId?: string;
+  instructions?: string;
+  tools?: BuiltInConnector[];
+};
+
+export type AppendConversationOptions = ConversationRequestOptions & {
+  conversationId: string;
+};
+
+export type RestartConversationOptions = AppendConversationOptions & {
+  // The entry to restart after; everything following it is replaced
+  fromEntryId: string;
+};
+
+export async function startConversation(options: StartConversationOptions): Promise<ConversationResponse> {
+  const response = await mistralFetch('/conversations', options, {
+    body: {
+      inputs: options.inputs,
+      model: options.agentId ? undefined : options.model,
+      agent_id: options.agentId || undefined,
+      instructions: options.instructions || undefined,
+      tools: options.tools?.length ? options.tools : undefined,
+      completion_args: options.completionArgs,
+      store: options.store,
+      stream: false,
+    },
+  });
+
+  return (await response.json()) as ConversationResponse;
+}
+
+export async function appendToConversation(options: AppendConversationOptions): Promise<ConversationResponse> {
+  const response = await mistralFetch(`/conversations/${encodeURIComponent(options.conversationId)}`, options, {
+    body: {
+      inputs: options.inputs,
+      completion_args: options.completionArgs,
+      store: options.store,
+      stream: false,
+    },
+  });
+
+  return (await response.json()) as ConversationResponse;
+}
+
+export async function restartConversation(options: RestartConversationOptions): Promise<ConversationResponse> {
+  const response = await mistralFetch(`/conversations/${encodeURIComponent(options.conversationId)}/restart`, options, {
+    body: {
+      inputs: options.inputs,
+      from_entry_id: options.fromEntryId,
+      completion_args: options.completionArgs,
+      store: options.store,
+      stream: false,
+    },
+  });
+
+  return (await response.json()) as ConversationResponse;
+}
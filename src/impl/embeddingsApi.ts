@@ -0,0 +1,113 @@
+import { mistralFetch, type MistralRequestOptions } from './mistralApi.js';
+import type { MistralTokenizer } from './tokenizer.js';
+
+// Mistral rejects embedding requests whose inputs add up to more than this many tokens
+export const MISTRAL_EMBED_MAX_BATCH_TOKENS = 16384;
+
+// Upper bound on the number of inputs sent in a single request, regardless of their size
+export const MISTRAL_EMBED_MAX_BATCH_SIZE = 128;
+
+// Allowance for the control tokens each input is wrapped in
+const CONTROL_TOKENS_PER_INPUT = 2;
+
+export type EmbeddingOptions = MistralRequestOptions & {
+  model: string;
+  input: string[];
+};
+
+export type EmbeddingResponse = {
+  id: string;
+  object: string;
+  model: string;
+  data: Array<{
+    object: 'embedding';
+    embedding: number[];
+    index: number;
+  }>;
+  usage: {
+    prompt_tokens: number;
+    total_tokens: number;
+  };
+};
+
+export async function createEmbeddings(options: EmbeddingOptions): Promise<EmbeddingResponse> {
+  const response = await mistralFetch('/embeddings', options, {
+    body: {
+      model: options.model,
+      input: options.input,
+    },
+  });
+
+  return (await response.json()) as EmbeddingResponse;
+}
+
+/**
+ * Splits inputs into batches that stay under the token limit of a single request. Without an
+ * exact tokenizer, each input counts as its length in UTF-8 bytes: no tokenizer makes more tokens
+ * than that, whereas estimates can be far too low for code or non-Latin scripts.
+ */
+export function batchEmbeddingInputs(
+  inputs: string[],
+  tokenizer?: MistralTokenizer,
+  maxBatchTokens: number = MISTRAL_EMBED_MAX_BATCH_TOKENS,
+  maxBatchSize: number = MISTRAL_EMBED_MAX_BATCH_SIZE,
+): string[][] {
+  const encoder = new TextEncoder();
+  const countTokens = tokenizer?.exact
+    ? (text: string) => tokenizer.countTokens(text)
+    : (text: string) => encoder.encode(text).length;
+  const batches: string[][] = [];
+  let currentBatch: string[] = [];
+  let currentTokens = 0;
+
+  for (const input of inputs) {
+    const tokens = countTokens(input) + CONTROL_TOKENS_PER_INPUT;
+    if (currentBatch.length && (currentTokens + tokens > maxBatchTokens || currentBatch.length >= maxBatchSize)) {
+      batches.push(currentBatch);
+      currentBatch = [];
+      currentTokens = 0;
+    }
+    currentBatch.push(input);
+    currentTokens += tokens;
+  }
+
+  if (currentBatch.length) {
+    batches.push(currentBatch);
+  }
+  return batches;
+}
+
+/**
+ * Embeds any number of inputs, sending them in as many requests as needed. The result looks like
+ * a single response: embeddings are in input order and usage is summed across requests.
+ */
+export async function createEmbeddingsBatched(
+  options: EmbeddingOptions & { tokenizer?: MistralTokenizer },
+): Promise<EmbeddingResponse> {
+  const { tokenizer, ...requestOptions } = options;
+  const batches = batchEmbeddingInputs(options.input, tokenizer);
+  const merged: EmbeddingResponse = {
+    id: '',
+    object: 'list',
+    model: options.model,
+    data: [],
+    usage: { prompt_tokens: 0, total_tokens: 0 },
+  };
+
+  for (const batch of batches) {
+    const response = await createEmbeddings({ ...requestOptions, input: batch });
+    const offset = merged.data.length;
+
+    merged.id ||= response.id;
+    merged.model = response.model;
+    merged.data.push(
+      ...[...response.data]
+        .sort((a, b) => a.index - b.index)
+        .map((embedding) => ({ ...embedding, index: embedding.index + offset })),
+    );
+    merged.usage.prompt_tokens += response.usage.prompt_tokens;
+    merged.usage.total_tokens += response.usage.total_tokens;
+  }
+
+  return merged;
+}
@@ -0,0 +1,81 @@
+import { mistralFetch, type MistralRequestOptions } from './mistralApi.js';
+
+// What an uploaded file will be used for
+export type FilePurpose = 'batch' | 'fine-tune' | 'ocr';
+
+export type MistralFile = {
+  id: string;
+  object: 'file';
+  bytes: number;
+  created_at: number;
+  filename: string;
+  purpose: FilePurpose;
+  sample_type?: string;
+  num_lines?: number | null;
+  source?: string;
+};
+
+export type FileListResponse = {
+  object: 'list';
+  data: MistralFile[];
+  total: number;
+};
+
+export type ListFilesOptions = MistralRequestOptions & {
+  // Zero-based
+  page?: number;
+  pageSize?: number;
+  purpose?: FilePurpose;
+  // Matches part of the file name
+  search?: string;
+};
+
+export type UploadFileOptions = MistralRequestOptions & {
+  file: Blob;
+  filename: string;
+  purpose: FilePurpose;
+};
+
+export async function uploadFile(options: UploadFileOptions): Promise<MistralFile> {
+  const form = new FormData();
+  form.append('purpose', options.purpose);
+  form.append('file', options.file, options.filename);
+
+  const response = await mistralFetch('/files', options, { body: form });
+  return (await response.json()) as MistralFile;
+}
+
+/** Downloads the contents of a file, e.g. the results of a batch job. */
+export async function downloadFile(options: MistralRequestOptions, fileId: string): Promise<Blob> {
+  const response = await mistralFetch(`/files/${encodeURIComponent(fileId)}/content`, options, { method: 'GET' });
+  return response.blob();
+}
+
+export async function listFiles(options: ListFilesOptions): Promise<FileListResponse> {
+  const params = new URLSearchParams();
+  if (options.page !== undefined) params.set('page', String(options.page));
+  if (options.pageSize !== undefined) params.set('page_size', String(options.pageSize));
+  if (options.purpose) params.set('purpose', options.purpose);
+  if (options.search) params.set('search', options.search);
+
+  const query = params.toString();
+  const response = await mistralFetch(`/files${query ? `?${query}` : ''}`, options, { method: 'GET' });
+  return (await response.json()) as FileListResponse;
+}
+
+export async function retrieveFile(options: MistralRequestOptions, fileId: string): Promise<MistralFile> {
+  const response = await mistralFetch(`/files/${encodeURIComponent(fileId)}`, options, { method: 'GET' });
+  return (await response.json()) as MistralFile;
+}
+
+export async function deleteFile(options: MistralRequestOptions, fileId: string): Promise<{ id: string; deleted: boolean }> {
+  const response = await mistralFetch(`/files/${encodeURIComponent(fileId)}`, options, { method: 'DELETE' });
+  return (await response.json()) as { id: string; deleted: boolean };
+}
+
+/** A temporary URL to the file's contents that works without an API key, e.g. for OCR. */
+export async function getSignedUrl(options: MistralRequestOptions, fileId: string, expiryHours?: number): Promise<string> {
+  const query = expiryHours ? `?expiry=${expiryHours}` : '';
+  const response = await mistralFetch(`/files/${encodeURIComponent(fileId)}/url${query}`, options, { method: 'GET' });
+  return ((await response.json()) as { url: string }).url;
+}
@@ -0,0 +1,68 @@
+import {
+  mistralFetch,
+  readServerSentEvents,
+  type ChatCompletionChunk,
+  type ChatCompletionResponse,
+  type MistralRequestOptions,
+} from './mistralApi.js';
+
+export type FimCompletionOptions = MistralRequestOptions & {
+  model: string;
+  prompt: string;
+  // The code after the cursor; the model fills in what goes between prompt and suffix
+  suffix?: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  minTokens?: number;
+  stop?: string[];
+  random_seed?: number;
+};
+
+// FIM responses and stream chunks have the same shape as chat completions
+export type FimCompletionResponse = ChatCompletionResponse;
+export type FimCompletionChunk = ChatCompletionChunk;
+
+export function buildFimCompletionBody(options: FimCompletionOptions, stream: boolean): Record<string, unknown> {
+  return {
+    model: options.model,
+    prompt: options.prompt,
+    suffix: options.suffix || undefined,
+    temperature: options.temperature,
+    top_p: options.topP,
+    max_tokens: options.maxTokens,
+    min_tokens: options.minTokens,
+    stop: options.stop?.length ? options.stop : undefined,
+    random_seed: options.random_seed,
+    stream,
+  };
+}
+
+export async function createFimCompletion(options: FimCompletionOptions): Promise<FimCompletionResponse> {
+  const response = await mistralFetch('/fim/completions', options, {
+    body: buildFimCompletionBody(options, false),
+  });
+
+  return (await response.json()) as FimCompletionResponse;
+}
+
+export async function* streamFimCompletion(options: FimCompletionOptions): AsyncGenerator<FimCompletionChunk> {
+  const response = await mistralFetch('/fim/completions', options, {
+    body: buildFimCompletionBody(options, true),
+  });
+
+  if (!response.body) {
+    throw new Error('No response body');
+  }
+
+  for await (const dataContent of readServerSentEvents(response.body, options.signal)) {
+    let chunk: FimCompletionChunk;
+    try {
+      chunk = JSON.parse(dataContent);
+    } catch (e) {
+      console.error('Error parsing JSON from stream:', e);
+      continue;
+    }
+    yield chunk;
+  }
+}
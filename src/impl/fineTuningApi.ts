@@ -0,0 +1,213 @@
+import { mistralFetch, sleep, type MistralRequestOptions } from './mistralApi.js';
+import type { ModelCard } from './modelsApi.js';
+
+export type FineTuningJobStatus =
+  | 'QUEUED'
+  | 'STARTED'
+  | 'VALIDATING'
+  | 'VALIDATED'
+  | 'RUNNING'
+  | 'FAILED_VALIDATION'
+  | 'FAILED'
+  | 'SUCCESS'
+  | 'CANCELLATION_REQUESTED'
+  | 'CANCELLED';
+
+// Unset values use Mistral's defaults for the base model
+export type FineTuningHyperparameters = {
+  training_steps?: number;
+  learning_rate?: number;
+  weight_decay?: number;
+  warmup_fraction?: number;
+  epochs?: number;
+  seq_len?: number;
+};
+
+export type WandbIntegration = {
+  type: 'wandb';
+  project: string;
+  name?: string;
+  api_key: string;
+  run_name?: string;
+};
+
+export type FineTuningJobMetadata = {
+  expected_duration_seconds?: number | null;
+  cost?: number | null;
+  cost_currency?: string | null;
+  train_tokens_per_step?: number | null;
+  train_tokens?: number | null;
+  data_tokens?: number | null;
+  estimated_start_time?: number | null;
+};
+
+export type FineTuningCheckpoint = {
+  step_number: number;
+  created_at: number;
+  metrics: {
+    train_loss?: number | null;
+    valid_loss?: number | null;
+    valid_mean_token_accuracy?: number | null;
+  };
+};
+
+export type FineTuningEvent = {
+  name: string;
+  data?: Record<string, unknown> | null;
+  created_at: number;
+};
+
+export type FineTuningJob = {
+  id: string;
+  object: 'job';
+  model: string;
+  status: FineTuningJobStatus;
+  auto_start: boolean;
+  created_at: number;
+  modified_at: number;
+  training_files: string[];
+  validation_files?: string[] | null;
+  hyperparameters: FineTuningHyperparameters;
+  // The ft: model id, once the job has succeeded
+  fine_tuned_model?: string | null;
+  suffix?: string | null;
+  integrations?: Omit<WandbIntegration, 'api_key'>[] | null;
+  trained_tokens?: number | null;
+  metadata?: FineTuningJobMetadata | null;
+  // Only returned when getting a single job
+  events?: FineTuningEvent[];
+  checkpoints?: FineTuningCheckpoint[];
+};
+
+export type FineTuningJobListResponse = {
+  object: 'list';
+  data: FineTuningJob[];
+  total: number;
+};
+
+export type CreateFineTuningJobOptions = MistralRequestOptions & {
+  model: string;
+  trainingFiles: string[];
+  validationFiles?: string[];
+  hyperparameters: FineTuningHyperparameters;
+  suffix?: string;
+  integrations?: WandbIntegration[];
+  // When false, the job waits to be started once it has been validated
+  autoStart?: boolean;
+};
+
+export type ListFineTuningJobsOptions = MistralRequestOptions & {
+  // Zero-based
+  page?: number;
+  pageSize?: number;
+  model?: string;
+  status?: FineTuningJobStatus;
+  suffix?: string;
+  createdByMe?: boolean;
+};
+
+export type FineTunedModelUpdate = {
+  name?: string;
+  description?: string;
+};
+
+const finishedStatuses: FineTuningJobStatus[] = ['FAILED_VALIDATION', 'FAILED', 'SUCCESS', 'CANCELLED'];
+
+export function isFineTuningJobFinished(job: FineTuningJob): boolean {
+  return finishedStatuses.includes(job.status);
+}
+
+export async function createFineTuningJob(options: CreateFineTuningJobOptions): Promise<FineTuningJob> {
+  const response = await mistralFetch('/fine_tuning/jobs', options, {
+    body: {
+      model: options.model,
+      training_files: options.trainingFiles.map((file_id) => ({ file_id, weight: 1 })),
+      validation_files: options.validationFiles?.length ? options.validationFiles : undefined,
+      hyperparameters: options.hyperparameters,
+      suffix: options.suffix || undefined,
+      integrations: options.integrations?.length ? options.integrations : undefined,
+      auto_start: options.autoStart,
+    },
+  });
+  return (await response.json()) as FineTuningJob;
+}
+
+export async function listFineTuningJobs(options: ListFineTuningJobsOptions): Promise<FineTuningJobListResponse> {
+  const params = new URLSearchParams();
+  if (options.page !== undefined) params.set('page', String(options.page));
+  if (options.pageSize !== undefined) params.set('page_size', String(options.pageSize));
+  if (options.model) params.set('model', options.model);
+  if (options.status) params.set('status', options.status);
+  if (options.suffix) params.set('suffix', options.suffix);
+  if (options.createdByMe) params.set('created_by_me', 'true');
+
+  const query = params.toString();
+  const response = await mistralFetch(`/fine_tuning/jobs${query ? `?${query}` : ''}`, options, { method: 'GET' });
+  return (await response.json()) as FineTuningJobListResponse;
+}
+
+/** Gets a job with its events and checkpoint metrics. */
+export async function getFineTuningJob(options: MistralRequestOptions, jobId: string): Promise<FineTuningJob> {
+  const response = await mistralFetch(`/fine_tuning/jobs/${encodeURIComponent(jobId)}`, options, { method: 'GET' });
+  return (await response.json()) as FineTuningJob;
+}
+
+export async function cancelFineTuningJob(options: MistralRequestOptions, jobId: string): Promise<FineTuningJob> {
+  const response = await mistralFetch(`/fine_tuning/jobs/${encodeURIComponent(jobId)}/cancel`, options, {});
+  return (await response.json()) as FineTuningJob;
+}
+
+/** Starts a validated job that was created without auto start. */
+export async function startFineTuningJob(options: MistralRequestOptions, jobId: string): Promise<FineTuningJob> {
+  const response = await mistralFetch(`/fine_tuning/jobs/${encodeURIComponent(jobId)}/start`, options, {});
+  return (await response.json()) as FineTuningJob;
+}
+
+export async function updateFineTunedModel(
+  options: MistralRequestOptions,
+  modelId: string,
+  update: FineTunedModelUpdate,
+): Promise<ModelCard> {
+  const response = await mistralFetch(`/fine_tuning/models/${encodeURIComponent(modelId)}`, options, {
+    method: 'PATCH',
+    body: update,
+  });
+  return (await response.json()) as ModelCard;
+}
+
+/** Archived models are hidden from the model list, but can still be unarchived. */
+export async function archiveFineTunedModel(options: MistralRequestOptions, modelId: string): Promise<{ id: string; archived: boolean }> {
+  const response = await mistralFetch(`/fine_tuning/models/${encodeURIComponent(modelId)}/archive`, options, {});
+  return (await response.json()) as { id: string; archived: boolean };
+}
+
+export async function unarchiveFineTunedModel(options: MistralRequestOptions, modelId: string): Promise<{ id: string; archived: boolean }> {
+  const response = await mistralFetch(`/fine_tuning/models/${encodeURIComponent(modelId)}/archive`, options, { method: 'DELETE' });
+  return (await response.json()) as { id: string; archived: boolean };
+}
+
+export async function deleteFineTunedModel(options: MistralRequestOptions, modelId: string): Promise<{ id: string; deleted: boolean }> {
+  const response = await mistralFetch(`/models/${encodeURIComponent(modelId)}`, options, { method: 'DELETE' });
+  return (await response.json()) as { id: string; deleted: boolean };
+}
+
+/**
+ * Polls a job until it has finished, calling `onStatus` with each update. Aborting the signal
+ * stops waiting, but leaves the job running.
+ */
+export async function waitForFineTuningJob(
+  options: MistralRequestOptions,
+  jobId: string,
+  intervalMs: number,
+  onStatus?: (job: FineTuningJob) => void,
+): Promise<FineTuningJob> {
+  for (;;) {
+    const job = await getFineTuningJob(options, jobId);
+    onStatus?.(job);
+    if (isFineTuningJobFinished(job)) {
+      return job;
+    }
+
+    await sleep(intervalMs, options.signal);
+  }
+}
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { formatJsonSchemaErrors, validateJsonSchema } from './jsonSchema.js';
+
+const person = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    age: { type: 'integer', minimum: 0 },
+    tags: { type: 'array', items: { type: 'string' }, uniqueItems: true },
+  },
+  required: ['name'],
+  additionalProperties: false,
+};
+
+describe('validateJsonSchema', () => {
+  it('accepts a matching value', () => {
+    assert.deepEqual(validateJsonSchema({ name: 'Ada', age: 36, tags: ['math'] }, person), []);
+  });
+
+  it('reports each problem with its path', () => {
+    const errors = validateJsonSchema({ age: 1.5, tags: ['a', 'a'], extra: true }, person);
+    assert.deepEqual(errors.map((error) => error.path).sort(), ['$', '$.age', '$.extra', '$.tags']);
+    assert.match(formatJsonSchemaErrors(errors), /\$: missing required property "name"/);
+  });
+
+  it('only finds required properties on the value itself', () => {
+    const errors = validateJsonSchema({}, { type: 'object', required: ['toString', 'constructor'] });
+    assert.equal(errors.length, 2);
+  });
+
+  it('does not take property schemas from the prototype', () => {
+    const errors = validateJsonSchema(JSON.parse('{"__proto__": 1, "toString": 2}'), {
+      type: 'object',
+      properties: {},
+      additionalProperties: false,
+    });
+    assert.deepEqual(errors.map((error) => error.path).sort(), ['$.__proto__', '$.toString']);
+  });
+
+  it('treats integers as numbers', () => {
+    assert.deepEqual(validateJsonSchema(3, { type: 'number' }), []);
+    assert.equal(validateJsonSchema(3.5, { type: 'integer' }).length, 1);
+  });
+
+  it('checks enum and const', () => {
+    assert.deepEqual(validateJsonSchema('b', { enum: ['a', 'b'] }), []);
+    assert.equal(validateJsonSchema('c', { enum: ['a', 'b'] }).length, 1);
+    assert.equal(validateJsonSchema(null, { const: 0 }).length, 1);
+  });
+
+  it('resolves local references against the root', () => {
+    const schema = {
+      type: 'object',
+      properties: { child: { $ref: '#/$defs/node' } },
+      $defs: { node: { type: 'object', properties: { value: { type: 'number' } } } },
+    };
+    assert.deepEqual(validateJsonSchema({ child: { value: 1 } }, schema), []);
+    assert.deepEqual(validateJsonSchema({ child: { value: 'one' } }, schema).map((error) => error.path), ['$.child.value']);
+  });
+
+  it('rejects references outside the schema', () => {
+    assert.throws(() => validateJsonSchema({}, { $ref: 'https://example.com/schema.json' }), /Only local JSON schema references/);
+  });
+
+  it('combines schemas with anyOf, oneOf and not', () => {
+    assert.deepEqual(validateJsonSchema(1, { anyOf: [{ type: 'string' }, { type: 'number' }] }), []);
+    assert.equal(validateJsonSchema(true, { anyOf: [{ type: 'string' }, { type: 'number' }] }).length, 1);
+    assert.equal(validateJsonSchema(1, { oneOf: [{ type: 'number' }, { type: 'integer' }] }).length, 1);
+    assert.equal(validateJsonSchema('x', { not: { type: 'string' } }).length, 1);
+  });
+
+  it('ignores keywords with values of the wrong type', () => {
+    assert.deepEqual(validateJsonSchema('abc', { type: 'string', maxLength: '1', properties: 'none', anyOf: {} }), []);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * A small JSON Schema validator covering the keywords models are realistically given in
+ * structured output schemas. It is interpreted rather than compiled, so it works in Rivet's
+ * browser context where code generation (as used by ajv) may be blocked.
+ */
+
+type JsonSchema = boolean | { [keyword: string]: unknown };
+
+export type JsonSchemaValidationError = {
+  path: string;
+  message: string;
+};
+
+export function validateJsonSchema(value: unknown, schema: object): JsonSchemaValidationError[] {
+  const errors: JsonSchemaValidationError[] = [];
+  validate(value, schema as JsonSchema, '$', schema, errors);
+  return errors;
+}
+
+export function formatJsonSchemaErrors(errors: JsonSchemaValidationError[]): string {
+  return errors.map((error) => `${error.path}: ${error.message}`).join('\n');
+}
+
+function getType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = getType(value);
+  if (type === 'number') return actual === 'number' || actual === 'integer';
+  return actual === type;
+}
+
+function resolveRef(ref: string, root: object): JsonSchema {
+  if (!ref.startsWith('#')) {
+    throw new Error(`Only local JSON schema references are supported, got "${ref}"`);
+  }
+
+  let target: unknown = root;
+  for (const segment of ref.slice(1).split('/').filter(Boolean)) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    target = target && typeof target === 'object' && Object.hasOwn(target, key)
+      ? (target as Record<string, unknown>)[key]
+      : undefined;
+  }
+
+  if (target === undefined) {
+    throw new Error(`Could not resolve JSON schema reference "${ref}"`);
+  }
+  return target as JsonSchema;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isSchema(value: unknown): value is JsonSchema {
+  return typeof value === 'boolean' || (!!value && typeof value === 'object' && !Array.isArray(value));
+}
+
+function getSchemaList(value: unknown): JsonSchema[] {
+  return Array.isArray(value) ? value.filter(isSchema) : [];
+}
+
+function validate(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  root: object,
+  errors: JsonSchemaValidationError[],
+): void {
+  if (schema === true) return;
+  if (schema === false) {
+    errors.push({ path, message: 'no value is allowed here' });
+    return;
+  }
+
+  const s: Record<string, unknown> = schema;
+  const getNumber = (keyword: string) => (typeof s[keyword] === 'number' ? s[keyword] as number : undefined);
+
+  if (typeof s.$ref === 'string') {
+    validate(value, resolveRef(s.$ref, root), path, root, errors);
+  }
+
+  if (s.type !== undefined) {
+    const types = (Array.isArray(s.type) ? s.type : [s.type]).filter((type): type is string => typeof type === 'string');
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push({ path, message: `expected ${types.join(' or ')}, got ${getType(value)}` });
+      return;
+    }
+  }
+
+  if (Array.isArray(s.enum) && !s.enum.some((option) => isEqual(option, value))) {
+    errors.push({ path, message: `must be one of ${s.enum.map((option) => JSON.stringify(option)).join(', ')}` });
+  }
+
+  if (Object.hasOwn(s, 'const') && !isEqual(s.const, value)) {
+    errors.push({ path, message: `must equal ${JSON.stringify(s.const)}` });
+  }
+
+  if (typeof value === 'string') {
+    const minLength = getNumber('minLength');
+    const maxLength = getNumber('maxLength');
+    if (minLength !== undefined && value.length < minLength) {
+      errors.push({ path, message: `must be at least ${minLength} characters long` });
+    }
+    if (maxLength !== undefined && value.length > maxLength) {
+      errors.push({ path, message: `must be at most ${maxLength} characters long` });
+    }
+    if (typeof s.pattern === 'string' && !new RegExp(s.pattern, 'u').test(value)) {
+      errors.push({ path, message: `must match the pattern ${s.pattern}` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    const minimum = getNumber('minimum');
+    const maximum = getNumber('maximum');
+    const exclusiveMinimum = getNumber('exclusiveMinimum');
+    const exclusiveMaximum = getNumber('exclusiveMaximum');
+    const multipleOf = getNumber('multipleOf');
+    if (minimum !== undefined && value < minimum) {
+      errors.push({ path, message: `must be >= ${minimum}` });
+    }
+    if (maximum !== undefined && value > maximum) {
+      errors.push({ path, message: `must be <= ${maximum}` });
+    }
+    if (exclusiveMinimum !== undefined && value <= exclusiveMinimum) {
+      errors.push({ path, message: `must be > ${exclusiveMinimum}` });
+    }
+    if (exclusiveMaximum !== undefined && value >= exclusiveMaximum) {
+      errors.push({ path, message: `must be < ${exclusiveMaximum}` });
+    }
+    if (multipleOf !== undefined && multipleOf > 0 && !Number.isInteger(value / multipleOf)) {
+      errors.push({ path, message: `must be a multiple of ${multipleOf}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    const minItems = getNumber('minItems');
+    const maxItems = getNumber('maxItems');
+    if (minItems !== undefined && value.length < minItems) {
+      errors.push({ path, message: `must have at least ${minItems} items` });
+    }
+    if (maxItems !== undefined && value.length > maxItems) {
+      errors.push({ path, message: `must have at most ${maxItems} items` });
+    }
+    if (s.uniqueItems === true && new Set(value.map((item) => JSON.stringify(item))).size !== value.length) {
+      errors.push({ path, message: 'items must be unique' });
+    }
+
+    const prefixItems = getSchemaList(s.prefixItems);
+    value.forEach((item, index) => {
+      const itemSchema = index < prefixItems.length ? prefixItems[index] : s.items;
+      if (isSchema(itemSchema)) {
+        validate(item, itemSchema, `${path}[${index}]`, root, errors);
+      }
+    });
+  }
+
+  if (getType(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = isSchema(s.properties) && typeof s.properties === 'object' ? s.properties : {};
+
+    if (Array.isArray(s.required)) {
+      for (const key of s.required) {
+        // Own properties only, so that e.g. "toString" is not found on the prototype
+        if (typeof key === 'string' && !Object.hasOwn(object, key)) {
+          errors.push({ path, message: `missing required property "${key}"` });
+        }
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(object)) {
+      const propertyPath = `${path}.${key}`;
+      const propertySchema = Object.hasOwn(properties, key) ? properties[key] : undefined;
+      if (isSchema(propertySchema)) {
+        validate(propertyValue, propertySchema, propertyPath, root, errors);
+      } else if (s.additionalProperties === false) {
+        errors.push({ path: propertyPath, message: 'is not an allowed property' });
+      } else if (isSchema(s.additionalProperties)) {
+        validate(propertyValue, s.additionalProperties, propertyPath, root, errors);
+      }
+    }
+  }
+
+  for (const subSchema of getSchemaList(s.allOf)) {
+    validate(value, subSchema, path, root, errors);
+  }
+
+  if (Array.isArray(s.anyOf)) {
+    if (!getSchemaList(s.anyOf).some((subSchema) => matches(value, subSchema, root))) {
+      errors.push({ path, message: 'does not match any of the allowed schemas' });
+    }
+  }
+
+  if (Array.isArray(s.oneOf)) {
+    const matchCount = getSchemaList(s.oneOf).filter((subSchema) => matches(value, subSchema, root)).length;
+    if (matchCount !== 1) {
+      errors.push({ path, message: `must match exactly one of the allowed schemas (matched ${matchCount})` });
+    }
+  }
+
+  if (isSchema(s.not) && matches(value, s.not, root)) {
+    errors.push({ path, message: 'must not match the disallowed schema' });
+  }
+}
+
+// Sub-schemas are checked on their own, but their $refs still resolve against the root
+function matches(value: unknown, schema: JsonSchema, root: object): boolean {
+  const errors: JsonSchemaValidationError[] = [];
+  validate(value, schema, '$', root, errors);
+  return errors.length === 0;
+}
@@ -0,0 +1,298 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import {
+  MistralApiError,
+  buildChatCompletionBody,
+  createChatCompletion,
+  getRetryDelay,
+  isRetryableError,
+  mistralFetch,
+  readServerSentEvents,
+  streamChatCompletion,
+  type ChatCompletionOptions,
+  type MistralRequestOptions,
+} from './mistralApi.js';
+
+const chatOptions: ChatCompletionOptions = {
+  apiKey: 'test',
+  model: 'mistral-small-latest',
+  messages: [{ role: 'user', content: 'Hi' }],
+};
+
+// No waiting between attempts
+const retryOptions: MistralRequestOptions = {
+  apiKey: 'test',
+  retry: { maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0, jitter: false },
+};
+
+function streamOf(...parts: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      parts.forEach((part) => controller.enqueue(encoder.encode(part)));
+      controller.close();
+    },
+  });
+}
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const item of items) {
+    collected.push(item);
+  }
+  return collected;
+}
+
+// Responds with each of `responses` in turn, repeating the last one
+function mockFetch(...responses: (() => Response)[]) {
+  let call = 0;
+  return mock.method(globalThis, 'fetch', async () => responses[Math.min(call++, responses.length - 1)]!());
+}
+
+function connectError(code: string): TypeError {
+  return new TypeError('fetch failed', { cause: Object.assign(new Error(code), { code }) });
+}
+
+// Responds with each of `results` in turn: a status code, or an error to reject with
+function mockFetchResults(...results: (number | Error)[]) {
+  return mockFetch(...results.map((result) => () => {
+    if (result instanceof Error) {
+      throw result;
+    }
+    return new Response(result === 200 ? '{}' : '{"message":"failed"}', { status: result });
+  }));
+}
+
+describe('readServerSentEvents', () => {
+  it('yields the data of each event', async () => {
+    const events = await collect(readServerSentEvents(streamOf('data: {"a":1}\n\ndata: {"a":2}\n\n')));
+    assert.deepEqual(events, ['{"a":1}', '{"a":2}']);
+  });
+
+  it('joins lines split across chunks', async () => {
+    const events = await collect(readServerSentEvents(streamOf('data: {"te', 'xt":"hi"}\n', '\n')));
+    assert.deepEqual(events, ['{"text":"hi"}']);
+  });
+
+  it('stops at [DONE]', async () => {
+    const events = await collect(readServerSentEvents(streamOf('data: 1\n\ndata: [DONE]\n\ndata: 2\n\n')));
+    assert.deepEqual(events, ['1']);
+  });
+
+  it('skips comments, other fields and empty data', async () => {
+    const events = await collect(readServerSentEvents(streamOf(': keep-alive\nevent: message\ndata:\n\ndata: 1\r\n\r\n')));
+    assert.deepEqual(events, ['1']);
+  });
+
+  it('reads a last event without a trailing newline', async () => {
+    const events = await collect(readServerSentEvents(streamOf('data: 1\n\ndata: 2')));
+    assert.deepEqual(events, ['1', '2']);
+  });
+
+  it('throws the abort reason when the signal aborts', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('Stopped'));
+    await assert.rejects(collect(readServerSentEvents(streamOf('data: 1\n\n'), controller.signal)), /Stopped/);
+  });
+});
+
+describe('buildChatCompletionBody', () => {
+  it('maps options to the API field names', () => {
+    const body = buildChatCompletionBody({ ...chatOptions, maxTokens: 100, topP: 0.9, random_seed: 1, stop: ['\n'] });
+    assert.equal(body.max_tokens, 100);
+    assert.equal(body.top_p, 0.9);
+    assert.equal(body.random_seed, 1);
+    assert.deepEqual(body.stop, ['\n']);
+    assert.equal(body.stream, false);
+  });
+
+  it('leaves out connection settings', () => {
+    const body = buildChatCompletionBody({ ...chatOptions, baseUrl: 'https://example.com', timeoutMs: 10 });
+    assert.equal('apiKey' in body, false);
+    assert.equal('baseUrl' in body, false);
+    assert.equal('timeoutMs' in body, false);
+  });
+
+  it('leaves out an empty stop list', () => {
+    assert.equal(buildChatCompletionBody({ ...chatOptions, stop: [] }).stop, undefined);
+  });
+
+  it('only sends tool settings along with tools', () => {
+    const withoutTools = buildChatCompletionBody({ ...chatOptions, tool_choice: 'any', parallel_tool_calls: false });
+    assert.equal('tool_choice' in withoutTools, false);
+    assert.equal('parallel_tool_calls' in withoutTools, false);
+
+    const tools = [{ type: 'function' as const, function: { name: 'search', parameters: {} } }];
+    const withTools = buildChatCompletionBody({ ...chatOptions, tools, tool_choice: 'any' });
+    assert.deepEqual(withTools.tools, tools);
+    assert.equal(withTools.tool_choice, 'any');
+  });
+});
+
+describe('MistralApiError', () => {
+  it('reads how long to wait from the headers', () => {
+    assert.equal(new MistralApiError(429, '', new Headers({ 'retry-after': '2' })).retryAfterMs, 2000);
+    assert.equal(new MistralApiError(429, '', new Headers({ 'retry-after-ms': '250' })).retryAfterMs, 250);
+    assert.equal(new MistralApiError(429, '', new Headers({ 'x-ratelimit-reset': '3' })).retryAfterMs, 3000);
+    assert.equal(new MistralApiError(429, '', new Headers()).retryAfterMs, undefined);
+  });
+
+  it('keeps the status and body', () => {
+    const error = new MistralApiError(401, 'Unauthorized');
+    assert.equal(error.status, 401);
+    assert.equal(error.body, 'Unauthorized');
+    assert.equal(error.message, 'Mistral API error: 401 - Unauthorized');
+    assert.equal(error.type, undefined);
+  });
+
+  it('reads the error type and code from a JSON body', () => {
+    const error = new MistralApiError(400, '{"object":"error","message":"Invalid model","type":"invalid_model","code":1500}');
+    assert.equal(error.type, 'invalid_model');
+    assert.equal(error.code, '1500');
+  });
+});
+
+describe('chat completion requests', () => {
+  beforeEach(() => {
+    mock.method(console, 'error', () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('posts the body as JSON with the API key', async () => {
+    const fetch = mockFetch(() => Response.json({ id: 'cmpl-1', choices: [] }));
+    const response = await createChatCompletion({ ...chatOptions, baseUrl: 'https://example.com/v1/', headers: { 'X-Test': '1' } });
+    assert.equal(response.id, 'cmpl-1');
+
+    const [url, init] = fetch.mock.calls[0]!.arguments as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    assert.equal(url, 'https://example.com/v1/chat/completions');
+    assert.equal(init.method, 'POST');
+    assert.equal(headers['Authorization'], 'Bearer test');
+    assert.equal(headers['Content-Type'], 'application/json');
+    assert.equal(headers['X-Test'], '1');
+    assert.deepEqual(JSON.parse(init.body as string).messages, chatOptions.messages);
+  });
+
+  it('throws a MistralApiError for a failed response', async () => {
+    mockFetch(() => new Response('{"message":"Invalid model","type":"invalid_model"}', { status: 400 }));
+    await assert.rejects(createChatCompletion(chatOptions), (error) => {
+      return error instanceof MistralApiError && error.status === 400 && error.type === 'invalid_model';
+    });
+  });
+
+  it('streams parsed chunks, skipping ones that are not JSON', async () => {
+    mockFetch(() => new Response(streamOf('data: {"id":"1","choices":[]}\n\ndata: {oops\n\ndata: {"id":"2","choices":[]}\n\ndata: [DONE]\n\n')));
+    const chunks = await collect(streamChatCompletion(chatOptions));
+    assert.deepEqual(chunks.map((chunk) => chunk.id), ['1', '2']);
+  });
+});
+
+describe('isRetryableError', () => {
+  it('retries reads on server errors and any network failure', () => {
+    assert.equal(isRetryableError(new MistralApiError(500, ''), 'GET'), true);
+    assert.equal(isRetryableError(new MistralApiError(504, ''), 'GET'), true);
+    assert.equal(isRetryableError(new TypeError('fetch failed'), 'GET'), true);
+  });
+
+  it('retries other requests only when they were turned away', () => {
+    assert.equal(isRetryableError(new MistralApiError(429, ''), 'POST'), true);
+    assert.equal(isRetryableError(new MistralApiError(503, ''), 'POST'), true);
+    assert.equal(isRetryableError(new MistralApiError(500, ''), 'POST'), false);
+    assert.equal(isRetryableError(new MistralApiError(504, ''), 'DELETE'), false);
+  });
+
+  it('retries other requests on connection failures before anything was sent', () => {
+    assert.equal(isRetryableError(connectError('ECONNREFUSED'), 'POST'), true);
+    assert.equal(isRetryableError(connectError('ECONNRESET'), 'POST'), false);
+    assert.equal(isRetryableError(new TypeError('Failed to fetch'), 'POST'), false);
+  });
+
+  it('never retries client errors', () => {
+    assert.equal(isRetryableError(new MistralApiError(400, ''), 'GET'), false);
+    assert.equal(isRetryableError(new MistralApiError(401, ''), 'POST'), false);
+    assert.equal(isRetryableError(new Error('aborted'), 'GET'), false);
+  });
+});
+
+describe('mistralFetch', () => {
+  beforeEach(() => {
+    mock.method(console, 'warn', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('retries a rate-limited request', async () => {
+    const fetch = mockFetchResults(429, 200);
+    const response = await mistralFetch('/chat/completions', retryOptions, { body: {} });
+    assert.equal(response.status, 200);
+    assert.equal(fetch.mock.callCount(), 2);
+  });
+
+  it('does not resend a request that failed with a server error', async () => {
+    const fetch = mockFetchResults(500, 200);
+    await assert.rejects(mistralFetch('/chat/completions', retryOptions, { body: {} }), (error) => {
+      return error instanceof MistralApiError && error.status === 500;
+    });
+    assert.equal(fetch.mock.callCount(), 1);
+  });
+
+  it('retries a read that failed with a server error', async () => {
+    const fetch = mockFetchResults(502, 200);
+    await mistralFetch('/models', retryOptions, { method: 'GET' });
+    assert.equal(fetch.mock.callCount(), 2);
+  });
+
+  it('retries a request that could not connect', async () => {
+    const fetch = mockFetchResults(connectError('ECONNREFUSED'), 200);
+    await mistralFetch('/chat/completions', retryOptions, { body: {} });
+    assert.equal(fetch.mock.callCount(), 2);
+  });
+
+  it('does not resend a request whose connection dropped', async () => {
+    const fetch = mockFetchResults(connectError('ECONNRESET'), 200);
+    await assert.rejects(mistralFetch('/chat/completions', retryOptions, { body: {} }), TypeError);
+    assert.equal(fetch.mock.callCount(), 1);
+  });
+
+  it('gives up after the maximum number of retries', async () => {
+    const fetch = mockFetchResults(503);
+    const retries: number[] = [];
+    await assert.rejects(
+      mistralFetch('/chat/completions', { ...retryOptions, onRetry: ({ attempt }) => retries.push(attempt) }, { body: {} }),
+      MistralApiError,
+    );
+    assert.equal(fetch.mock.callCount(), 3);
+    assert.deepEqual(retries, [1, 2]);
+  });
+
+  it('does not retry without a retry policy', async () => {
+    const fetch = mockFetchResults(429, 200);
+    await assert.rejects(mistralFetch('/chat/completions', { apiKey: 'test' }, { body: {} }), MistralApiError);
+    assert.equal(fetch.mock.callCount(), 1);
+  });
+});
+
+describe('getRetryDelay', () => {
+  const policy = { maxRetries: 3, baseDelayMs: 100, maxDelayMs: 1000, jitter: false };
+
+  it('doubles the delay for each retry', () => {
+    assert.deepEqual([1, 2, 3].map((attempt) => getRetryDelay(policy, attempt)), [100, 200, 400]);
+  });
+
+  it('caps the delay, including one asked for by the server', () => {
+    assert.equal(getRetryDelay(policy, 10), 1000);
+    assert.equal(getRetryDelay(policy, 1, 5000), 1000);
+    assert.equal(getRetryDelay(policy, 1, 300), 300);
+  });
+
+  it('randomizes the delay with jitter', () => {
+    const delay = getRetryDelay({ ...policy, jitter: true }, 2);
+    assert.ok(delay >= 100 && delay <= 200);
+  });
+});
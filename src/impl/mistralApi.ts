@@ -1,4 +1,4 @@
-import type { MistralModels, MistralMessage, ToolCall } from '../mistral';
+import type { MistralMessage, Tool, ToolCall, ToolChoice } from '../mistral';
 export { mistralModels } from '../mistral';
 
 // Add these types to match Mistral's API exactly
@@ -10,19 +10,86 @@ export type ChatMessage = {
   name?: string;
 };
 
-export type ChatCompletionOptions = {
-  model: MistralModels;
+export type ResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | {
+      type: 'json_schema';
+      json_schema: {
+        name: string;
+        description?: string;
+        schema: object;
+        strict?: boolean;
+      };
+    };
+
+export type RetryPolicy = {
+  /** How many times to retry after the first attempt. 0 disables retries. */
+  maxRetries: number;
+  /** Delay before the first retry; doubled for each retry after that. */
+  baseDelayMs: number;
+  /** Upper bound for any single delay, including ones requested by the server. */
+  maxDelayMs?: number;
+  /** Randomize delays so that parallel requests don't retry in lockstep. */
+  jitter?: boolean;
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 60000,
+  jitter: true,
+};
+
+// Options shared by every request made through the client
+export type MistralRequestOptions = {
+  apiKey: string;
+  /** Defaults to MISTRAL_API_BASE_URL. Point this at a self-hosted gateway or a mock server. */
+  baseUrl?: string;
+  /** Extra headers sent with every request, e.g. an organization or gateway routing header. */
+  headers?: Record<string, string>;
+  /** Milliseconds to wait for the API to respond before giving up. */
+  timeoutMs?: number;
+  /** Cancels the request, including any retries and a stream that is still being read. */
+  signal?: AbortSignal;
+  /** Defaults to no retries. */
+  retry?: RetryPolicy;
+  /** Called before each retry, e.g. to count attempts. */
+  onRetry?: (info: { attempt: number; delayMs: number; error: Error }) => void;
+};
+
+export type ChatCompletionOptions = MistralRequestOptions & {
+  // Any model id, including fine-tuned `ft:` models
+  model: string;
   messages: MistralMessage[];
   temperature?: number;
   maxTokens?: number;
   topP?: number;
   stream?: boolean;
-  apiKey: string;
-  signal?: AbortSignal;
   safe_prompt?: boolean;
   random_seed?: number;
+  tools?: Tool[];
+  tool_choice?: ToolChoice;
+  parallel_tool_calls?: boolean;
+  response_format?: ResponseFormat;
+  // Generation stops before any of these sequences
+  stop?: string[];
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  // Number of completions to generate; each is a separate choice
+  n?: number;
+  // Expected output, e.g. the file being edited, which speeds up replies that mostly repeat it
+  prediction?: Prediction;
 };
-  
+
+export type Prediction = {
+  type: 'content';
+  content: string;
+};
+
+// `length` means Max Tokens was reached, `model_length` that the model's context is full
+export type FinishReason = 'stop' | 'length' | 'model_length' | 'tool_calls' | 'error';
+
 export type ChatCompletionResponse = {
   id: string;
   object: string;
@@ -32,10 +99,10 @@ export type ChatCompletionResponse = {
     index: number;
     message: {
       role: string;
-      content: string;
-      tool_calls?: ToolCall[];
+      content: string | null;
+      tool_calls?: ToolCall[] | null;
     };
-    finish_reason: 'stop' | 'length' | 'tool_calls';
+    finish_reason: FinishReason;
   }>;
   usage: {
     prompt_tokens: number;
@@ -54,10 +121,10 @@ export type ChatCompletionChunk = {
     index: number;
     delta: {
       role?: string;
-      content?: string;
-      tool_calls?: ToolCall[];
+      content?: string | null;
+      tool_calls?: ToolCall[] | null;
     };
-    finish_reason: 'stop' | 'length' | 'tool_calls' | null;
+    finish_reason: FinishReason | null;
   }>;
   // Some chunks might include usage information
   usage?: {
@@ -66,3 +133,366 @@ export type ChatCompletionChunk = {
     total_tokens: number;
   };
 };
+
+export const MISTRAL_API_BASE_URL = 'https://api.mistral.ai/v1';
+
+/**
+ * Error thrown for any non-OK response from the Mistral API. Keeps the HTTP status and the
+ * raw body around so callers can branch on them, and pulls out Mistral's error type/code when
+ * the body is JSON.
+ */
+export class MistralApiError extends Error {
+  readonly status: number;
+  readonly body: string;
+  readonly type: string | undefined;
+  readonly code: string | undefined;
+  /** How long the server asked us to wait before retrying, if it said. */
+  readonly retryAfterMs: number | undefined;
+
+  constructor(status: number, body: string, headers?: Headers) {
+    super(`Mistral API error: ${status} - ${body}`);
+    this.name = 'MistralApiError';
+    this.status = status;
+    this.body = body;
+
+    const parsed = parseErrorBody(body);
+    this.type = parsed.type;
+    this.code = parsed.code;
+    this.retryAfterMs = headers ? parseRetryAfter(headers) : undefined;
+  }
+
+  /**
+   * Whether the request can be sent again. A server error may come after the request was
+   * processed, so only reads are retried on those; anything else only when it was turned away.
+   */
+  isRetryable(method: string): boolean {
+    return (isSafeMethod(method) ? RETRYABLE_STATUSES : REJECTED_STATUSES).includes(this.status);
+  }
+}
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+// Rate limited or unavailable: the request was rejected before it was processed
+const REJECTED_STATUSES = [429, 503];
+// Connection failures where the request never reached the server
+const CONNECT_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH', 'UND_ERR_CONNECT_TIMEOUT'];
+
+// Reads can be resent freely; anything else may create, bill or change something twice
+function isSafeMethod(method: string): boolean {
+  return method.toUpperCase() === 'GET';
+}
+
+function parseRetryAfter(headers: Headers): number | undefined {
+  const retryAfterMs = Number(headers.get('retry-after-ms'));
+  if (retryAfterMs > 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return Math.max(seconds * 1000, 0);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(date - Date.now(), 0);
+    }
+  }
+
+  // Rate limit reset hints, in seconds until the window resets
+  const reset = Number(headers.get('x-ratelimit-reset') ?? headers.get('ratelimit-reset'));
+  if (reset > 0) {
+    return reset * 1000;
+  }
+
+  return undefined;
+}
+
+function parseErrorBody(body: string): { type?: string; code?: string } {
+  try {
+    const json = JSON.parse(body);
+    if (json && typeof json === 'object') {
+      return {
+        type: typeof json.type === 'string' ? json.type : undefined,
+        code: json.code != null ? String(json.code) : undefined,
+      };
+    }
+  } catch (e) {
+    // Not JSON, nothing to extract
+  }
+  return {};
+}
+
+function isNetworkError(error: unknown): boolean {
+  // fetch rejects with a TypeError when the connection fails before any response
+  return error instanceof TypeError;
+}
+
+// Node's fetch puts the socket error in `cause`; browsers don't say, so nothing matches there
+function isConnectError(error: unknown): boolean {
+  const code = isNetworkError(error) ? ((error as TypeError).cause as { code?: unknown } | undefined)?.code : undefined;
+  return typeof code === 'string' && CONNECT_ERROR_CODES.includes(code);
+}
+
+/**
+ * Whether a failed request can be retried without risk of it being processed - and billed -
+ * twice. GET requests are retried on any server error or connection failure. Other requests
+ * only on rate limits (429), an unavailable service (503), or a failure to connect at all.
+ */
+export function isRetryableError(error: unknown, method: string): boolean {
+  if (error instanceof MistralApiError) {
+    return error.isRetryable(method);
+  }
+  return isSafeMethod(method) ? isNetworkError(error) : isConnectError(error);
+}
+
+export function getRetryDelay(policy: RetryPolicy, attempt: number, retryAfterMs?: number): number {
+  const maxDelayMs = policy.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs!;
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, maxDelayMs);
+  }
+
+  const exponential = policy.baseDelayMs * 2 ** (attempt - 1);
+  const delay = policy.jitter ? exponential * (0.5 + Math.random() / 2) : exponential;
+  return Math.min(delay, maxDelayMs);
+}
+
+/**
+ * Combines an outer signal (usually Rivet's `context.signal`) with an overall time limit.
+ * Unlike `timeoutMs` this also covers reading a stream. Call `dispose` when the work is done
+ * so the timer and listener don't outlive it.
+ */
+export function withTimeout(
+  signal: AbortSignal | undefined,
+  timeoutMs: number | undefined,
+): { signal: AbortSignal | undefined; dispose: () => void } {
+  if (!timeoutMs || timeoutMs <= 0) {
+    return { signal, dispose: () => {} };
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+  const timer = setTimeout(() => controller.abort(new Error(`Mistral request timed out after ${timeoutMs}ms`)), timeoutMs);
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/** Waits for `ms`, rejecting with the abort reason if the signal is aborted first. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Sends a request to the Mistral API and returns the raw response once it is known to be OK.
+ * All endpoints go through here so that auth, retries and error handling stay in one place.
+ * Only failures where the request cannot have been processed are retried (see isRetryableError),
+ * so retrying does not cause a request to be billed twice.
+ * The body is sent as JSON, except FormData, which is sent as a multipart upload.
+ */
+export async function mistralFetch(
+  path: string,
+  options: MistralRequestOptions,
+  init: { method?: string; body?: unknown } = {},
+): Promise<Response> {
+  const policy = options.retry;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await sendRequest(path, options, init);
+    } catch (error) {
+      if (!policy || !isRetryableError(error, init.method ?? 'POST') || attempt > policy.maxRetries || options.signal?.aborted) {
+        throw error;
+      }
+
+      const delayMs = getRetryDelay(policy, attempt, error instanceof MistralApiError ? error.retryAfterMs : undefined);
+      console.warn(`Mistral API request failed (attempt ${attempt}), retrying in ${Math.round(delayMs)}ms:`, error);
+      options.onRetry?.({ attempt, delayMs, error: error as Error });
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
+
+async function sendRequest(
+  path: string,
+  options: MistralRequestOptions,
+  init: { method?: string; body?: unknown },
+): Promise<Response> {
+  const baseUrl = (options.baseUrl || MISTRAL_API_BASE_URL).replace(/\/+$/, '');
+
+  // The timeout only covers waiting for the response headers - a stream that has started
+  // is allowed to run to completion.
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(options.signal?.reason);
+  if (options.signal?.aborted) {
+    onAbort();
+  } else {
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+  }
+  const timeout = options.timeoutMs && options.timeoutMs > 0
+    ? setTimeout(() => controller.abort(new Error(`Mistral API request timed out after ${options.timeoutMs}ms`)), options.timeoutMs)
+    : undefined;
+
+  // Form data (file uploads) sets its own multipart content type
+  const isFormData = typeof FormData !== 'undefined' && init.body instanceof FormData;
+
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}${path}`, {
+      method: init.method ?? 'POST',
+      headers: {
+        ...(isFormData ? {} : { 'Content-Type': 'application/json' }),
+        ...options.headers,
+        'Authorization': `Bearer ${options.apiKey}`,
+      },
+      body: init.body === undefined ? undefined : isFormData ? (init.body as FormData) : JSON.stringify(init.body),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    // Surface our own timeout error rather than a generic AbortError
+    if (controller.signal.aborted && controller.signal.reason instanceof Error) {
+      throw controller.signal.reason;
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  if (!response.ok) {
+    options.signal?.removeEventListener('abort', onAbort);
+    const errorText = await response.text();
+    console.error("Mistral API error:", response.status, errorText);
+    throw new MistralApiError(response.status, errorText, response.headers);
+  }
+
+  return response;
+}
+
+/**
+ * Reads a server-sent events stream and yields the payload of every `data:` line,
+ * stopping at the `[DONE]` sentinel. When `signal` aborts, the stream is cancelled so the
+ * server stops generating, and the signal's reason is thrown.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  // Cancelling resolves a pending read() as done, which the loop below turns into an error
+  const onAbort = () => {
+    reader.cancel(signal?.reason).catch(() => {});
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    while (true) {
+      signal?.throwIfAborted();
+      const { done, value } = await reader.read();
+      signal?.throwIfAborted();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+
+        const dataContent = trimmed.slice(5).trim();
+        if (dataContent === '[DONE]') return;
+        if (dataContent) yield dataContent;
+      }
+    }
+
+    // Flush whatever is left if the stream did not end with a newline
+    const trimmed = (buffer + decoder.decode()).trim();
+    if (trimmed.startsWith('data:')) {
+      const dataContent = trimmed.slice(5).trim();
+      if (dataContent && dataContent !== '[DONE]') yield dataContent;
+    }
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    reader.releaseLock();
+  }
+}
+
+export function buildChatCompletionBody(options: ChatCompletionOptions): Record<string, unknown> {
+  return {
+    model: options.model,
+    messages: options.messages,
+    temperature: options.temperature,
+    max_tokens: options.maxTokens,
+    top_p: options.topP,
+    stream: options.stream ?? false,
+    safe_prompt: options.safe_prompt,
+    random_seed: options.random_seed,
+    response_format: options.response_format,
+    stop: options.stop?.length ? options.stop : undefined,
+    presence_penalty: options.presence_penalty,
+    frequency_penalty: options.frequency_penalty,
+    n: options.n,
+    prediction: options.prediction,
+    // Tool settings are only meaningful when tools are actually provided
+    ...(options.tools?.length
+      ? {
+          tools: options.tools,
+          tool_choice: options.tool_choice,
+          parallel_tool_calls: options.parallel_tool_calls,
+        }
+      : {}),
+  };
+}
+
+export async function createChatCompletion(options: ChatCompletionOptions): Promise<ChatCompletionResponse> {
+  const response = await mistralFetch('/chat/completions', options, {
+    body: buildChatCompletionBody({ ...options, stream: false }),
+  });
+
+  return (await response.json()) as ChatCompletionResponse;
+}
+
+export async function* streamChatCompletion(options: ChatCompletionOptions): AsyncGenerator<ChatCompletionChunk> {
+  const response = await mistralFetch('/chat/completions', options, {
+    body: buildChatCompletionBody({ ...options, stream: true }),
+  });
+
+  if (!response.body) {
+    throw new Error('No response body');
+  }
+
+  for await (const dataContent of readServerSentEvents(response.body, options.signal)) {
+    let chunk: ChatCompletionChunk;
+    try {
+      chunk = JSON.parse(dataContent);
+    } catch (e) {
+      console.error('Error parsing JSON from stream:', e);
+      continue;
+    }
+    yield chunk;
+  }
+}
@@ -0,0 +1,35 @@
+import type { EmbeddingGenerator, InternalProcessContext } from '@ironclad/rivet-core';
+import { createEmbeddings } from './embeddingsApi.js';
+import { getMistralRequestOptions } from './pluginConfig.js';
+
+/**
+ * Lets Rivet's built-in Get Embedding node (and anything else using the `embeddingGenerator`
+ * integration) use Mistral, by selecting the "mistral" integration.
+ */
+export class MistralEmbeddingGenerator implements EmbeddingGenerator {
+  readonly #context: InternalProcessContext;
+
+  constructor(context: InternalProcessContext) {
+    this.#context = context;
+  }
+
+  async generateEmbedding(text: string, options?: Record<string, unknown>): Promise<number[]> {
+    // The core node defaults to an OpenAI model name, which Mistral would reject
+    const requestedModel = typeof options?.model === 'string' ? options.model : undefined;
+    const model = requestedModel?.includes('embed') && !requestedModel.startsWith('text-embedding')
+      ? requestedModel
+      : 'mistral-embed';
+
+    const response = await createEmbeddings({
+      ...getMistralRequestOptions(this.#context),
+      model,
+      input: [text],
+    });
+
+    const embedding = response.data[0]?.embedding;
+    if (!embedding) {
+      throw new Error('Mistral returned no embedding');
+    }
+    return embedding;
+  }
+}
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import { getModel, refreshModels } from './modelRegistry.js';
+import type { ModelCard } from './modelsApi.js';
+import type { MistralConfigContext } from './pluginConfig.js';
+
+const card: ModelCard = {
+  id: 'ft:open-mistral-nemo:test:1234',
+  object: 'model',
+  created: 0,
+  owned_by: 'test',
+  name: null,
+  description: null,
+  max_context_length: 128000,
+  aliases: [],
+  deprecation: null,
+  capabilities: { completion_chat: true, completion_fim: false, function_calling: true, fine_tuning: false, vision: false },
+  type: 'fine-tuned',
+  root: 'open-mistral-nemo',
+};
+
+const contextWith = (signal?: AbortSignal): MistralConfigContext => ({
+  getPluginConfig: (name) => (name === 'mistralApiKey' ? 'test' : undefined),
+  settings: {} as MistralConfigContext['settings'],
+  signal,
+});
+
+describe('refreshModels', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('keeps a shared refresh going when the caller that started it is cancelled', async () => {
+    let respond!: () => void;
+    let fetchSignal: AbortSignal | null | undefined;
+    mock.method(globalThis, 'fetch', (_url: string, init: RequestInit) => {
+      fetchSignal = init.signal;
+      return new Promise<Response>((resolve) => {
+        respond = () => resolve(new Response(JSON.stringify({ object: 'list', data: [card] })));
+      });
+    });
+
+    const controller = new AbortController();
+    const first = refreshModels(contextWith(controller.signal), { force: true });
+    const second = refreshModels(contextWith(), { force: true });
+
+    // The cancelled caller stops waiting straight away
+    controller.abort();
+    await first;
+    assert.equal(fetchSignal?.aborted, false);
+
+    respond();
+    await second;
+    assert.equal(getModel(card.id)?.live, true);
+  });
+});
@@ -0,0 +1,260 @@
+import { mistralModels, type MistralModel, type ModelCapability } from '../mistral.js';
+import { listModels, type ModelCard } from './modelsApi.js';
+import {
+  getMistralConfig,
+  getMistralRequestOptions,
+  getModelCacheTtlMs,
+  type MistralConfigContext,
+} from './pluginConfig.js';
+
+export type RegisteredModel = {
+  id: string;
+  displayName: string;
+  maxTokens: number;
+  contextLength: number;
+  cost: MistralModel['cost'];
+  capabilities: Record<ModelCapability, boolean>;
+  // For fine-tuned models, the model they were trained from - they are priced the same way
+  baseModel?: string;
+  fineTuned: boolean;
+  // False when the model is only known from the built-in table
+  live: boolean;
+};
+
+const unknownCost: MistralModel['cost'] = {
+  USD: {},
+  EUR: {},
+};
+
+// How long to wait before trying again after the model list could not be fetched
+const FAILED_REFRESH_DELAY_MS = 60 * 1000;
+
+// The editor UI has no abort signal, so don't let a slow API hold it up indefinitely
+const MODEL_LIST_TIMEOUT_MS = 10 * 1000;
+
+const staticModels = mistralModels as Record<string, MistralModel>;
+
+const capabilityDescriptions: Record<ModelCapability, string> = {
+  chat: 'chat completions',
+  vision: 'image input',
+  tools: 'tool calling',
+  json_schema: 'structured output (JSON schemas)',
+  fim: 'fill-in-the-middle completions',
+  embedding: 'embeddings',
+  moderation: 'moderation',
+  ocr: 'OCR',
+};
+
+function toCapabilities(capabilities: readonly ModelCapability[]): Record<ModelCapability, boolean> {
+  return Object.fromEntries(
+    (Object.keys(capabilityDescriptions) as ModelCapability[]).map((capability) => [capability, capabilities.includes(capability)]),
+  ) as Record<ModelCapability, boolean>;
+}
+
+function fromStaticTable(id: string, model: MistralModel): RegisteredModel {
+  return {
+    id,
+    displayName: model.displayName,
+    maxTokens: model.maxTokens,
+    contextLength: model.contextLength,
+    cost: model.cost,
+    capabilities: toCapabilities(model.capabilities),
+    fineTuned: false,
+    live: false,
+  };
+}
+
+// ft:<base model>:<suffix>:<date>:<job>
+function getFineTunedBaseModel(id: string): string | undefined {
+  return id.startsWith('ft:') ? id.split(':')[1] : undefined;
+}
+
+function fromModelCard(card: ModelCard): RegisteredModel {
+  const baseModel = card.type === 'fine-tuned' ? card.root ?? getFineTunedBaseModel(card.id) : undefined;
+  // Live ids are often dated versions; the static table is keyed by their -latest aliases
+  const pricingId = [card.id, ...card.aliases, ...(baseModel ? [baseModel] : [])].find((id) => staticModels[id]);
+  const known = pricingId ? staticModels[pricingId] : undefined;
+
+  return {
+    id: card.id,
+    displayName: (pricingId === card.id ? known?.displayName : undefined) ?? card.name ?? card.id,
+    maxTokens: known?.maxTokens || card.max_context_length,
+    contextLength: card.max_context_length,
+    cost: known?.cost ?? unknownCost,
+    capabilities: {
+      // The API doesn't report the non-chat capabilities, so those come from the built-in table,
+      // or failing that the model's name
+      ...(known ? toCapabilities(known.capabilities) : {
+        embedding: card.id.includes('embed'),
+        moderation: card.id.includes('moderation') || !!card.capabilities.classification,
+        ocr: card.id.includes('ocr'),
+      }),
+      chat: card.capabilities.completion_chat,
+      vision: card.capabilities.vision,
+      tools: card.capabilities.function_calling,
+      json_schema: card.capabilities.completion_chat,
+      fim: card.capabilities.completion_fim,
+    },
+    baseModel,
+    fineTuned: card.type === 'fine-tuned',
+    live: true,
+  };
+}
+
+const builtInModels = Object.entries(staticModels).map(([id, model]) => fromStaticTable(id, model));
+
+let models = new Map(builtInModels.map((model) => [model.id, model]));
+let cacheKey: string | undefined;
+let nextRefreshAt = 0;
+let pendingRefresh: Promise<void> | undefined;
+
+/** All known models: the built-in table, plus or updated by the last list fetched from the API. */
+export function getModels(): RegisteredModel[] {
+  return [...models.values()];
+}
+
+/**
+ * Looks up a model by id. Fine-tuned models that haven't been fetched yet are derived from their
+ * base model, so they can still be priced and validated offline.
+ */
+export function getModel(id: string): RegisteredModel | undefined {
+  const model = models.get(id);
+  if (model) {
+    return model;
+  }
+
+  const baseModel = getFineTunedBaseModel(id);
+  const base = baseModel ? models.get(baseModel) : undefined;
+  return base ? { ...base, id, displayName: id, baseModel, fineTuned: true, live: false } : undefined;
+}
+
+/**
+ * Dropdown options for the models matching `filter`. The selected model is always included,
+ * so a graph using a model that isn't listed (e.g. offline) still shows it.
+ */
+export function getModelOptions(
+  filter: (model: RegisteredModel) => boolean = () => true,
+  selected?: string,
+): { value: string; label: string }[] {
+  const options = getModels()
+    .filter(filter)
+    .map(({ id, displayName }) => ({ value: id, label: displayName }));
+
+  if (selected && !options.some(({ value }) => value === selected)) {
+    options.unshift({ value: selected, label: getModel(selected)?.displayName ?? selected });
+  }
+  return options;
+}
+
+/**
+ * Fetches the model list from the API if the cached one is missing or stale, and merges it with
+ * the built-in table. Never throws - without an API key or a connection the built-in list is used.
+ */
+export async function refreshModels(context: MistralConfigContext, options: { force?: boolean } = {}): Promise<void> {
+  try {
+    const ttlMs = getModelCacheTtlMs(context);
+    if (ttlMs === 0 || !getMistralConfig(context, 'mistralApiKey')) {
+      return;
+    }
+
+    const requestOptions = getMistralRequestOptions(context);
+    // A different endpoint or account can see different models, e.g. its own fine-tunes
+    const key = `${requestOptions.baseUrl ?? ''}\n${requestOptions.apiKey}`;
+    if (!options.force && key === cacheKey && Date.now() < nextRefreshAt) {
+      return;
+    }
+
+    // Shared by every caller, so no single caller's signal may cancel it
+    pendingRefresh ??= listModels({
+      ...requestOptions,
+      timeoutMs: requestOptions.timeoutMs || MODEL_LIST_TIMEOUT_MS,
+      retry: undefined,
+      signal: undefined,
+    })
+      .then((cards) => {
+        const merged = new Map(builtInModels.map((model) => [model.id, model]));
+        for (const card of cards) {
+          if (!card.archived) {
+            merged.set(card.id, fromModelCard(card));
+          }
+        }
+        models = merged;
+        cacheKey = key;
+        nextRefreshAt = Date.now() + ttlMs;
+      })
+      .catch((error) => {
+        console.warn('Could not fetch the Mistral model list, using the built-in list:', error);
+        cacheKey = key;
+        nextRefreshAt = Date.now() + FAILED_REFRESH_DELAY_MS;
+      })
+      .finally(() => {
+        pendingRefresh = undefined;
+      });
+
+    await untilAborted(pendingRefresh, context.signal);
+  } catch (error) {
+    console.warn('Could not refresh the Mistral model list:', error);
+  }
+}
+
+// Stops waiting once the signal is aborted, leaving the promise to settle for anyone else waiting on it
+async function untilAborted(promise: Promise<void>, signal: AbortSignal | undefined): Promise<void> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return;
+  }
+
+  let onAbort: () => void = () => {};
+  const aborted = new Promise<void>((resolve) => {
+    onAbort = resolve;
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+  try {
+    await Promise.race([promise, aborted]);
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+  }
+}
+
+/** Refreshes the model list if it doesn't have `id` yet, e.g. a model that was just fine-tuned. */
+export async function refreshModelsIfMissing(context: MistralConfigContext, id: string): Promise<void> {
+  if (!models.has(id)) {
+    await refreshModels(context, { force: true });
+  }
+}
+
+/**
+ * Checks that a model can do what a node is about to ask of it, so that mistakes are reported
+ * with a suggestion instead of as an API error. Models that aren't known are let through -
+ * the API is the only one that can say whether they work.
+ */
+export function validateModel(
+  id: string,
+  requirements: { capabilities: ModelCapability[]; maxTokens?: number },
+): void {
+  const model = getModel(id);
+  if (!model) {
+    return;
+  }
+
+  for (const capability of requirements.capabilities) {
+    if (!model.capabilities[capability]) {
+      const alternatives = getModels()
+        .filter((candidate) => requirements.capabilities.every((required) => candidate.capabilities[required]))
+        .slice(0, 3)
+        .map(({ displayName }) => displayName);
+      throw new Error(
+        `Model ${model.displayName} does not support ${capabilityDescriptions[capability]}.` +
+          (alternatives.length ? ` Choose a model that does, such as ${alternatives.join(', ')}.` : ''),
+      );
+    }
+  }
+
+  if (requirements.maxTokens !== undefined && model.contextLength > 0 && requirements.maxTokens > model.contextLength) {
+    throw new Error(
+      `Max tokens (${requirements.maxTokens}) is more than the ${model.contextLength}-token context length of ${model.displayName}. Lower it to at most ${model.contextLength}.`,
+    );
+  }
+}
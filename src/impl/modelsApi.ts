@@ -0,0 +1,43 @@
+import { mistralFetch, type MistralRequestOptions } from './mistralApi.js';
+
+export type ModelCapabilities = {
+  completion_chat: boolean;
+  completion_fim: boolean;
+  function_calling: boolean;
+  fine_tuning: boolean;
+  vision: boolean;
+  classification?: boolean;
+};
+
+export type ModelCard = {
+  id: string;
+  object: 'model';
+  created: number;
+  owned_by: string;
+  name: string | null;
+  description: string | null;
+  max_context_length: number;
+  aliases: string[];
+  deprecation: string | null;
+  capabilities: ModelCapabilities;
+  type: 'base' | 'fine-tuned';
+  // Fine-tuned models only
+  job?: string;
+  root?: string;
+  archived?: boolean;
+};
+
+export type ModelListResponse = {
+  object: 'list';
+  data: ModelCard[];
+};
+
+export async function listModels(options: MistralRequestOptions): Promise<ModelCard[]> {
+  const response = await mistralFetch('/models', options, { method: 'GET' });
+  return ((await response.json()) as ModelListResponse).data;
+}
+
+export async function retrieveModel(options: MistralRequestOptions, modelId: string): Promise<ModelCard> {
+  const response = await mistralFetch(`/models/${encodeURIComponent(modelId)}`, options, { method: 'GET' });
+  return (await response.json()) as ModelCard;
+}
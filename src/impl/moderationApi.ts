@@ -0,0 +1,63 @@
+import type { MistralMessage } from '../mistral.js';
+import { mistralFetch, type MistralRequestOptions } from './mistralApi.js';
+
+export const MISTRAL_MODERATION_CATEGORIES = [
+  'sexual',
+  'hate_and_discrimination',
+  'violence_and_threats',
+  'dangerous_and_criminal_content',
+  'selfharm',
+  'health',
+  'financial',
+  'law',
+  'pii',
+] as const;
+
+export type ModerationCategory = (typeof MISTRAL_MODERATION_CATEGORIES)[number];
+
+export type ModerationOptions = MistralRequestOptions & {
+  model: string;
+  input: string[];
+};
+
+export type ChatModerationOptions = MistralRequestOptions & {
+  model: string;
+  // A single conversation - the last message is classified in the context of the ones before it
+  input: MistralMessage[];
+};
+
+export type ModerationResponse = {
+  id: string;
+  model: string;
+  results: Array<{
+    categories: Record<ModerationCategory, boolean>;
+    category_scores: Record<ModerationCategory, number>;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+};
+
+export async function createModeration(options: ModerationOptions): Promise<ModerationResponse> {
+  const response = await mistralFetch('/moderations', options, {
+    body: {
+      model: options.model,
+      input: options.input,
+    },
+  });
+
+  return (await response.json()) as ModerationResponse;
+}
+
+export async function createChatModeration(options: ChatModerationOptions): Promise<ModerationResponse> {
+  const response = await mistralFetch('/chat/moderations', options, {
+    body: {
+      model: options.model,
+      input: options.input,
+    },
+  });
+
+  return (await response.json()) as ModerationResponse;
+}
@@ -0,0 +1,56 @@
+import { mistralFetch, type MistralRequestOptions } from './mistralApi.js';
+
+// Either URL may also be a base64 data URL
+export type OcrDocument =
+  | { type: 'document_url'; document_url: string }
+  | { type: 'image_url'; image_url: string };
+
+export type OcrOptions = MistralRequestOptions & {
+  model: string;
+  document: OcrDocument;
+  // Zero-based page numbers to process; all pages when omitted
+  pages?: number[];
+  include_image_base64?: boolean;
+};
+
+export type OcrImage = {
+  id: string;
+  top_left_x: number | null;
+  top_left_y: number | null;
+  bottom_right_x: number | null;
+  bottom_right_y: number | null;
+  image_base64?: string | null;
+};
+
+export type OcrPage = {
+  index: number;
+  markdown: string;
+  images: OcrImage[];
+  dimensions: {
+    dpi: number;
+    height: number;
+    width: number;
+  } | null;
+};
+
+export type OcrResponse = {
+  model: string;
+  pages: OcrPage[];
+  usage_info: {
+    pages_processed: number;
+    doc_size_bytes: number | null;
+  };
+};
+
+export async function createOcr(options: OcrOptions): Promise<OcrResponse> {
+  const response = await mistralFetch('/ocr', options, {
+    body: {
+      model: options.model,
+      document: options.document,
+      pages: options.pages,
+      include_image_base64: options.include_image_base64,
+    },
+  });
+
+  return (await response.json()) as OcrResponse;
+}
@@ -0,0 +1,22 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_RETRY_POLICY } from './mistralApi.js';
+import { applyRetryOverrides } from './pluginConfig.js';
+
+describe('applyRetryOverrides', () => {
+  const options = { apiKey: 'test', retry: { maxRetries: 5, baseDelayMs: 2000, jitter: false } };
+
+  it('keeps the plugin settings when the node leaves them unset', () => {
+    assert.deepEqual(applyRetryOverrides(options, {}).retry, options.retry);
+  });
+
+  it('replaces only the settings the node sets', () => {
+    assert.deepEqual(applyRetryOverrides(options, { maxRetries: 0 }).retry, { maxRetries: 0, baseDelayMs: 2000, jitter: false });
+    assert.deepEqual(applyRetryOverrides(options, { retryBaseDelayMs: 10 }).retry, { maxRetries: 5, baseDelayMs: 10, jitter: false });
+  });
+
+  it('starts from the default policy when the plugin has none', () => {
+    const retry = applyRetryOverrides({ apiKey: 'test' }, { maxRetries: 1 }).retry;
+    assert.deepEqual(retry, { ...DEFAULT_RETRY_POLICY, maxRetries: 1 });
+  });
+});
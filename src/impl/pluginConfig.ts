@@ -0,0 +1,227 @@
+import type { ChartNode, EditorDefinition, InternalProcessContext } from '@ironclad/rivet-core';
+import { DEFAULT_RETRY_POLICY, type MistralRequestOptions, type RetryPolicy } from './mistralApi.js';
+import type { PriceOverrides } from './pricing.js';
+
+export const MISTRAL_PLUGIN_ID = 'rivet-plugin-mistral';
+
+// Config can be read while processing a node or from the editor UI, which has no abort signal
+export type MistralConfigContext = Pick<InternalProcessContext, 'getPluginConfig' | 'settings'> & {
+  signal?: AbortSignal;
+};
+
+// Must match the pullEnvironmentVariable settings in the plugin configSpec
+const configEnvironmentVariables: Record<string, string> = {
+  mistralApiKey: 'MISTRAL_API_KEY',
+  mistralApiEndpoint: 'MISTRAL_API_ENDPOINT',
+  mistralOrganization: 'MISTRAL_ORGANIZATION',
+  mistralCustomHeaders: 'MISTRAL_CUSTOM_HEADERS',
+  mistralRequestTimeout: 'MISTRAL_REQUEST_TIMEOUT',
+  mistralMaxRetries: 'MISTRAL_MAX_RETRIES',
+  mistralRetryBaseDelay: 'MISTRAL_RETRY_BASE_DELAY',
+  mistralRetryJitter: 'MISTRAL_RETRY_JITTER',
+  mistralModelCacheTtl: 'MISTRAL_MODEL_CACHE_TTL',
+  mistralPriceOverrides: 'MISTRAL_PRICE_OVERRIDES',
+  mistralTekkenTokenizer: 'MISTRAL_TEKKEN_TOKENIZER',
+  mistralSentencePieceTokenizer: 'MISTRAL_SENTENCEPIECE_TOKENIZER',
+  mistralResponseCacheDir: 'MISTRAL_RESPONSE_CACHE_DIR',
+  mistralWandbApiKey: 'WANDB_API_KEY',
+};
+
+/**
+ * Reads a plugin config value. Integrations (e.g. embeddings) are called from Rivet's core nodes,
+ * whose context does not know about this plugin, so fall back to reading the settings directly.
+ */
+export function getMistralConfig(context: MistralConfigContext, name: string): string | undefined {
+  const value = context.getPluginConfig(name);
+  if (value !== undefined) {
+    return value;
+  }
+
+  const pluginSettings = context.settings.pluginSettings?.[MISTRAL_PLUGIN_ID];
+  if (pluginSettings) {
+    const setting = pluginSettings[name];
+    return typeof setting === 'string' && setting ? setting : undefined;
+  }
+
+  const envName = configEnvironmentVariables[name];
+  return envName ? context.settings.pluginEnv?.[envName] || undefined : undefined;
+}
+
+/**
+ * Parses the custom headers setting. Accepts either a JSON object (`{"X-Org": "acme"}`)
+ * or one `Name: value` pair per line.
+ */
+export function parseCustomHeaders(value: string | undefined): Record<string, string> {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return {};
+  }
+
+  if (trimmed.startsWith('{')) {
+    let json: unknown;
+    try {
+      json = JSON.parse(trimmed);
+    } catch (e) {
+      throw new Error(`Invalid Mistral custom headers: ${(e as Error).message}`);
+    }
+
+    if (!json || typeof json !== 'object' || Array.isArray(json)) {
+      throw new Error('Invalid Mistral custom headers: expected a JSON object of header names to values.');
+    }
+
+    return Object.fromEntries(Object.entries(json).map(([key, headerValue]) => [key, String(headerValue)]));
+  }
+
+  const headers: Record<string, string> = {};
+  for (const line of trimmed.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+
+    const separator = line.indexOf(':');
+    if (separator <= 0) {
+      throw new Error(`Invalid Mistral custom header line: "${line}". Expected "Name: value".`);
+    }
+    headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+  }
+  return headers;
+}
+
+/**
+ * Reads the plugin configuration and builds the options every Mistral request needs.
+ * Throws if the API key has not been configured.
+ */
+export function getMistralRequestOptions(context: MistralConfigContext): MistralRequestOptions {
+  const apiKey = getMistralConfig(context, 'mistralApiKey');
+  if (!apiKey) {
+    throw new Error('Mistral API key not configured. Please add your API key in the plugin configuration.');
+  }
+
+  const headers = parseCustomHeaders(getMistralConfig(context, 'mistralCustomHeaders'));
+
+  const organization = getMistralConfig(context, 'mistralOrganization')?.trim();
+  if (organization) {
+    headers['Mistral-Organization'] = organization;
+  }
+
+  return {
+    apiKey,
+    baseUrl: getMistralConfig(context, 'mistralApiEndpoint')?.trim() || undefined,
+    headers,
+    timeoutMs: getNumberConfig(context, 'mistralRequestTimeout', 'request timeout'),
+    retry: getRetryPolicy(context),
+    // Aborting the graph run cancels any request still in flight
+    signal: context.signal,
+  };
+}
+
+function getNumberConfig(context: MistralConfigContext, name: string, label: string): number | undefined {
+  const setting = getMistralConfig(context, name)?.trim();
+  if (!setting) {
+    return undefined;
+  }
+
+  const value = Number(setting);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`Invalid Mistral ${label}: "${setting}". Expected a non-negative number.`);
+  }
+  return value;
+}
+
+/** The plugin-wide retry policy; nodes may override parts of it. */
+export function getRetryPolicy(context: MistralConfigContext): RetryPolicy {
+  const jitter = getMistralConfig(context, 'mistralRetryJitter')?.trim().toLowerCase();
+  return {
+    maxRetries: getNumberConfig(context, 'mistralMaxRetries', 'max retries') ?? DEFAULT_RETRY_POLICY.maxRetries,
+    baseDelayMs: getNumberConfig(context, 'mistralRetryBaseDelay', 'retry base delay') ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+    maxDelayMs: DEFAULT_RETRY_POLICY.maxDelayMs,
+    jitter: jitter ? !['false', '0', 'no', 'off'].includes(jitter) : DEFAULT_RETRY_POLICY.jitter,
+  };
+}
+
+/** How long a model list fetched from the API is reused. 0 means only the built-in list is used. */
+export function getModelCacheTtlMs(context: MistralConfigContext): number {
+  return (getNumberConfig(context, 'mistralModelCacheTtl', 'model list cache duration') ?? 60) * 60 * 1000;
+}
+
+// The retry settings of every node that calls the API. Unset means use the plugin's retry settings.
+export type RetryOverrideData = {
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+};
+
+/** Applies a node's retry settings on top of the plugin-wide policy. Unset values keep the plugin's. */
+export function applyRetryOverrides(options: MistralRequestOptions, overrides: RetryOverrideData): MistralRequestOptions {
+  const policy = options.retry ?? DEFAULT_RETRY_POLICY;
+  return {
+    ...options,
+    retry: {
+      ...policy,
+      maxRetries: overrides.maxRetries ?? policy.maxRetries,
+      baseDelayMs: overrides.retryBaseDelayMs ?? policy.baseDelayMs,
+    },
+  };
+}
+
+/** The editors for `RetryOverrideData`, to spread at the end of a node's editors. */
+export function retryEditors<T extends ChartNode<string, RetryOverrideData>>(): EditorDefinition<T>[] {
+  const editors: EditorDefinition<ChartNode<string, RetryOverrideData>>[] = [
+    {
+      type: 'number',
+      label: 'Max Retries',
+      dataKey: 'maxRetries',
+      min: 0,
+      step: 1,
+      allowEmpty: true,
+      helperMessage: 'Retries for rate limits and server errors. Leave empty to use the plugin setting.',
+    },
+    {
+      type: 'number',
+      label: 'Retry Base Delay (ms)',
+      dataKey: 'retryBaseDelayMs',
+      min: 0,
+      step: 100,
+      allowEmpty: true,
+      helperMessage: 'Leave empty to use the plugin setting.',
+    },
+  ];
+  return editors as EditorDefinition<T>[];
+}
+
+/**
+ * Parses the price overrides setting, a JSON object such as
+ * `{"mistral-large-latest": {"USD": {"input": 1.5, "output": 4.5}}}`.
+ */
+export function getPriceOverrides(context: MistralConfigContext): PriceOverrides {
+  const setting = getMistralConfig(context, 'mistralPriceOverrides')?.trim();
+  if (!setting) {
+    return {};
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(setting);
+  } catch (e) {
+    throw new Error(`Invalid Mistral price overrides: ${(e as Error).message}`);
+  }
+
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+  if (!isObject(json)) {
+    throw new Error('Invalid Mistral price overrides: expected a JSON object of model ids to prices.');
+  }
+
+  for (const [model, currencies] of Object.entries(json)) {
+    if (!isObject(currencies)) {
+      throw new Error(`Invalid Mistral price overrides for ${model}: expected an object of currencies to prices.`);
+    }
+    for (const [currency, price] of Object.entries(currencies)) {
+      if (currency !== 'USD' && currency !== 'EUR') {
+        throw new Error(`Invalid Mistral price overrides for ${model}: unknown currency "${currency}". Use USD or EUR.`);
+      }
+      if (!isObject(price) || Object.values(price).some((value) => typeof value !== 'number' || value < 0)) {
+        throw new Error(`Invalid Mistral price overrides for ${model} in ${currency}: prices must be non-negative numbers.`);
+      }
+    }
+  }
+  return json as PriceOverrides;
+}
@@ -0,0 +1,52 @@
+import type { Currency, ModelPrice } from '../mistral.js';
+import { getModel } from './modelRegistry.js';
+
+// Negotiated prices by model id, replacing the list price for the units and currencies given
+export type PriceOverrides = Record<string, Partial<Record<Currency, ModelPrice>>>;
+
+// Whatever a request was billed on - most only use some of these
+export type BillableUsage = {
+  promptTokens?: number;
+  completionTokens?: number;
+  pages?: number;
+  audioMinutes?: number;
+};
+
+/**
+ * The price of a model in a currency, with any override applied. Fine-tuned models are priced
+ * like their base model, including its override, unless they have one of their own.
+ */
+export function getModelPrice(model: string, currency: Currency, overrides?: PriceOverrides): ModelPrice {
+  const registered = getModel(model);
+  const override = overrides?.[model] ?? (registered?.baseModel ? overrides?.[registered.baseModel] : undefined);
+  return { ...registered?.cost[currency], ...override?.[currency] };
+}
+
+/**
+ * Estimates the cost of a request in cents (or euro cents), rounded to 4 decimal places.
+ * Units the model has no price for don't add anything, so unknown models cost 0.
+ */
+export function calculateCost(model: string, usage: BillableUsage, currency: Currency, overrides?: PriceOverrides): number {
+  const price = getModelPrice(model, currency, overrides);
+  const cost =
+    ((usage.promptTokens ?? 0) / 1000000) * (price.input ?? 0) +
+    ((usage.completionTokens ?? 0) / 1000000) * (price.output ?? 0) +
+    (usage.pages ?? 0) * (price.perPage ?? 0) +
+    (usage.audioMinutes ?? 0) * (price.perAudioMinute ?? 0);
+  return Number((cost * 100).toFixed(4));
+}
+
+// Batch jobs are billed at half the usual price
+const BATCH_PRICE_FACTOR = 0.5;
+
+/** Like calculateCost, for requests made through a batch job. */
+export function calculateBatchCost(model: string, usage: BillableUsage, currency: Currency, overrides?: PriceOverrides): number {
+  return Number((calculateCost(model, usage, currency, overrides) * BATCH_PRICE_FACTOR).toFixed(4));
+}
+
+export function formatPrice(price: number | undefined, currency: Currency): string {
+  if (price === undefined) {
+    return '-';
+  }
+  return currency === 'USD' ? `$${price}` : `${price} €`;
+}
@@ -0,0 +1,125 @@
+import type { NativeApi } from '@ironclad/rivet-core';
+import { getMistralConfig, type MistralConfigContext } from './pluginConfig.js';
+
+export type ResponseCacheBackend = 'off' | 'memory' | 'file';
+
+type CacheEntry<T> = {
+  storedAt: number;
+  value: T;
+};
+
+export interface ResponseCache {
+  /** The cached value, or undefined if there is none or it is older than `ttlMs`. */
+  get<T>(key: string, ttlMs?: number): Promise<T | undefined>;
+  set<T>(key: string, value: T): Promise<void>;
+}
+
+const isExpired = (entry: CacheEntry<unknown>, ttlMs: number | undefined) =>
+  !!ttlMs && Date.now() - entry.storedAt > ttlMs;
+
+// Oldest entries are evicted past this, so long-running sessions don't grow without bound
+const MAX_MEMORY_ENTRIES = 1000;
+
+/** Lives as long as the plugin is loaded, shared by every node using the memory backend. */
+class MemoryResponseCache implements ResponseCache {
+  readonly #entries = new Map<string, CacheEntry<unknown>>();
+
+  async get<T>(key: string, ttlMs?: number): Promise<T | undefined> {
+    const entry = this.#entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (isExpired(entry, ttlMs)) {
+      this.#entries.delete(key);
+      return undefined;
+    }
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    this.#entries.delete(key);
+    this.#entries.set(key, { storedAt: Date.now(), value });
+    if (this.#entries.size > MAX_MEMORY_ENTRIES) {
+      this.#entries.delete(this.#entries.keys().next().value!);
+    }
+  }
+}
+
+/** One JSON file per request in a directory, so cached responses survive restarts and can be shared. */
+class FileResponseCache implements ResponseCache {
+  constructor(
+    private readonly nativeApi: NativeApi,
+    private readonly directory: string,
+  ) {}
+
+  async get<T>(key: string, ttlMs?: number): Promise<T | undefined> {
+    let entry: CacheEntry<T>;
+    try {
+      entry = JSON.parse(await this.nativeApi.readTextFile(this.#path(key))) as CacheEntry<T>;
+    } catch {
+      // Missing or unreadable files are just misses
+      return undefined;
+    }
+    return isExpired(entry, ttlMs) ? undefined : entry.value;
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    const entry: CacheEntry<T> = { storedAt: Date.now(), value };
+    try {
+      await this.nativeApi.writeTextFile(this.#path(key), JSON.stringify(entry));
+    } catch (error) {
+      console.warn(`Could not write to the Mistral response cache in ${this.directory}:`, error);
+    }
+  }
+
+  #path(key: string): string {
+    return `${this.directory.replace(/[\\/]+$/, '')}/${key}.json`;
+  }
+}
+
+const memoryCache = new MemoryResponseCache();
+
+/** The cache for a backend, or undefined when caching is off. */
+export function getResponseCache(
+  context: MistralConfigContext & { nativeApi?: NativeApi },
+  backend: ResponseCacheBackend | undefined,
+): ResponseCache | undefined {
+  switch (backend) {
+    case 'memory':
+      return memoryCache;
+    case 'file': {
+      const directory = getMistralConfig(context, 'mistralResponseCacheDir')?.trim();
+      if (!directory) {
+        throw new Error('The file response cache needs a directory. Set Response Cache Directory in the plugin configuration.');
+      }
+      if (!context.nativeApi) {
+        throw new Error('The file response cache is not supported here. Use the memory cache instead.');
+      }
+      return new FileResponseCache(context.nativeApi, directory);
+    }
+    default:
+      return undefined;
+  }
+}
+
+// Sorts object keys and leaves out undefined values, so equal requests serialize the same way
+function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== undefined)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([key, entry]) => [key, normalize(entry)]),
+    );
+  }
+  return value;
+}
+
+/** A SHA-256 hash of the normalized request body. */
+export async function getCacheKey(body: Record<string, unknown>): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(normalize(body))));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
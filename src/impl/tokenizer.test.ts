@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { TekkenTokenizer } from './tokenizer.js';
+
+// Every single byte, then the given merges in rank order
+const tekken = (merges: string[]) => new TekkenTokenizer({
+  config: { pattern: '\\S+|\\s+' },
+  vocab: [
+    ...Array.from({ length: 256 }, (_, byte) => ({ rank: byte, token_bytes: btoa(String.fromCharCode(byte)) })),
+    ...merges.map((merge, i) => ({ rank: 256 + i, token_bytes: btoa(merge) })),
+  ],
+});
+
+describe('TekkenTokenizer', () => {
+  it('merges the lowest ranked pair first', () => {
+    assert.equal(tekken(['ab', 'bc', 'cd']).countTokens('abcd'), 2);
+    assert.equal(tekken(['bc', 'ab', 'cd']).countTokens('abcd'), 3);
+  });
+
+  it('merges the leftmost pair when ranks tie', () => {
+    assert.equal(tekken(['aa', 'aaa']).countTokens('aaa'), 1);
+    assert.equal(tekken(['aa']).countTokens('aaa'), 2);
+  });
+
+  it('keeps building on merged tokens', () => {
+    assert.equal(tekken(['ab', 'abc', 'abcd']).countTokens('abcdabcd'), 2);
+  });
+
+  it('counts multi-byte characters by their bytes', () => {
+    // "é" is two bytes, "€" three, and the first of them falls in 0x80-0x9f
+    assert.equal(tekken([]).countTokens('é€'), 5);
+    assert.equal(tekken(['\xc3\xa9']).countTokens('é'), 1);
+  });
+
+  it('handles very long pieces', () => {
+    assert.equal(tekken(['ab']).countTokens('ab'.repeat(200000)), 200000);
+  });
+});
@@ -0,0 +1,415 @@
+import type { NativeApi } from '@ironclad/rivet-core';
+import type { MistralMessage, Tool } from '../mistral.js';
+import { getModel } from './modelRegistry.js';
+import { getMistralConfig, type MistralConfigContext } from './pluginConfig.js';
+
+// Newer models use the tiktoken-style "tekken" tokenizer, older ones SentencePiece
+export type TokenizerFamily = 'tekken' | 'sentencepiece';
+
+export interface MistralTokenizer {
+  readonly family: TokenizerFamily;
+  /** False when counts are estimated because no tokenizer file is configured. */
+  readonly exact: boolean;
+  countTokens(text: string): number;
+}
+
+// Based on the tokenizer each model family shipped with
+const tekkenModels = /^(open-mistral-nemo|mistral-nemo|ministral|pixtral-12b|mistral-small|mistral-medium|mistral-saba|magistral|devstral|codestral)/;
+
+export function getTokenizerFamily(model: string): TokenizerFamily {
+  const id = getModel(model)?.baseModel ?? model;
+  return tekkenModels.test(id) ? 'tekken' : 'sentencepiece';
+}
+
+// Words repeat a lot, so counts are cached per pre-token, up to a limit
+const MAX_CACHED_PIECES = 50000;
+
+function cachedCount(cache: Map<string, number>, piece: string, count: (piece: string) => number): number {
+  let tokens = cache.get(piece);
+  if (tokens === undefined) {
+    tokens = count(piece);
+    if (cache.size >= MAX_CACHED_PIECES) {
+      cache.clear();
+    }
+    cache.set(piece, tokens);
+  }
+  return tokens;
+}
+
+type TekkenFile = {
+  config: {
+    pattern: string;
+    default_vocab_size?: number;
+    default_num_special_tokens?: number;
+  };
+  vocab: { rank: number; token_bytes: string }[];
+};
+
+/**
+ * Byte-level BPE over a tekken.json vocabulary: the text is split with the file's regex, then
+ * each piece's bytes are merged pairwise, lowest rank first.
+ */
+export class TekkenTokenizer implements MistralTokenizer {
+  readonly family = 'tekken';
+  readonly exact = true;
+  readonly #pattern: RegExp;
+  // Keyed by the token's bytes as a latin1 string
+  readonly #ranks = new Map<string, number>();
+  readonly #cache = new Map<string, number>();
+  readonly #encoder = new TextEncoder();
+
+  constructor(file: TekkenFile) {
+    this.#pattern = new RegExp(file.config.pattern, 'gu');
+
+    // The vocab file can hold more tokens than the model uses
+    const vocabSize = (file.config.default_vocab_size ?? Infinity) - (file.config.default_num_special_tokens ?? 0);
+    for (const { rank, token_bytes } of file.vocab) {
+      if (rank < vocabSize) {
+        this.#ranks.set(atob(token_bytes), rank);
+      }
+    }
+  }
+
+  countTokens(text: string): number {
+    let tokens = 0;
+    for (const [piece] of text.matchAll(this.#pattern)) {
+      tokens += cachedCount(this.#cache, piece, (p) => this.#countPiece(p));
+    }
+    return tokens;
+  }
+
+  #countPiece(piece: string): number {
+    // One char per byte, matching the keys in #ranks
+    const bytes = this.#encoder.encode(piece);
+    let text = '';
+    for (const byte of bytes) {
+      text += String.fromCharCode(byte);
+    }
+    if (this.#ranks.has(text)) {
+      return 1;
+    }
+
+    // Tokens as a linked list of start offsets; merging two tokens unlinks the second one's start
+    const length = text.length;
+    const next = Int32Array.from({ length }, (_, i) => i + 1);
+    const prev = Int32Array.from({ length }, (_, i) => i - 1);
+    const merged = new Uint8Array(length);
+    const candidates = new MergeQueue();
+    const addCandidate = (start: number, end: number) => {
+      const rank = this.#ranks.get(text.slice(start, end));
+      if (rank !== undefined) {
+        candidates.push({ rank, start, end });
+      }
+    };
+    for (let i = 0; i + 2 <= length; i++) {
+      addCandidate(i, i + 2);
+    }
+
+    // Lowest rank first, leftmost on ties
+    let tokens = length;
+    for (let candidate = candidates.pop(); candidate; candidate = candidates.pop()) {
+      const { start, end } = candidate;
+      const second = next[start]!;
+      // Skip pairs that an earlier merge has already changed
+      if (merged[start] || second >= length || next[second] !== end) {
+        continue;
+      }
+
+      merged[second] = 1;
+      next[start] = end;
+      if (end < length) {
+        prev[end] = start;
+        addCandidate(start, next[end]!);
+      }
+      if (start > 0) {
+        addCandidate(prev[start]!, end);
+      }
+      tokens--;
+    }
+    return tokens;
+  }
+}
+
+type MergeCandidate = { rank: number; start: number; end: number };
+
+// Binary min-heap of merge candidates ordered by rank, then position
+class MergeQueue {
+  readonly #heap: MergeCandidate[] = [];
+
+  push(candidate: MergeCandidate): void {
+    const heap = this.#heap;
+    let i = heap.push(candidate) - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!before(heap[i]!, heap[parent]!)) break;
+      [heap[i], heap[parent]] = [heap[parent]!, heap[i]!];
+      i = parent;
+    }
+  }
+
+  pop(): MergeCandidate | undefined {
+    const heap = this.#heap;
+    const top = heap[0];
+    const last = heap.pop();
+    if (heap.length && last) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && before(heap[left]!, heap[smallest]!)) smallest = left;
+        if (right < heap.length && before(heap[right]!, heap[smallest]!)) smallest = right;
+        if (smallest === i) break;
+        [heap[i], heap[smallest]] = [heap[smallest]!, heap[i]!];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+function before(a: MergeCandidate, b: MergeCandidate): boolean {
+  return a.rank < b.rank || (a.rank === b.rank && a.start < b.start);
+}
+
+const SPACE = '▁';
+
+/**
+ * SentencePiece BPE over a `tokenizer.model` file: spaces become ▁, and adjacent pieces are
+ * merged highest score first. Characters missing from the vocabulary fall back to one token per byte.
+ */
+export class SentencePieceTokenizer implements MistralTokenizer {
+  readonly family = 'sentencepiece';
+  readonly exact = true;
+  readonly #scores: Map<string, number>;
+  readonly #cache = new Map<string, number>();
+  readonly #encoder = new TextEncoder();
+
+  constructor(modelFile: Uint8Array) {
+    this.#scores = parseSentencePieceModel(modelFile);
+  }
+
+  countTokens(text: string): number {
+    if (!text) {
+      return 0;
+    }
+
+    let tokens = 0;
+    // Pieces never span a space, so each word can be merged on its own
+    for (const word of (SPACE + text.replace(/ /g, SPACE)).split(new RegExp(`(?=${SPACE})`))) {
+      tokens += cachedCount(this.#cache, word, (w) => this.#countWord(w));
+    }
+    return tokens;
+  }
+
+  #countWord(word: string): number {
+    const symbols = Array.from(word);
+    while (symbols.length > 1) {
+      let best = -1;
+      let bestScore = -Infinity;
+      for (let i = 0; i < symbols.length - 1; i++) {
+        const score = this.#scores.get(symbols[i]! + symbols[i + 1]!);
+        if (score !== undefined && score > bestScore) {
+          best = i;
+          bestScore = score;
+        }
+      }
+      if (best < 0) break;
+      symbols.splice(best, 2, symbols[best]! + symbols[best + 1]!);
+    }
+
+    return symbols.reduce(
+      (tokens, symbol) => tokens + (this.#scores.has(symbol) ? 1 : this.#encoder.encode(symbol).length),
+      0,
+    );
+  }
+}
+
+// Reads the pieces (field 1) of a SentencePiece ModelProto: each has a piece (1), score (2) and type (3)
+function parseSentencePieceModel(bytes: Uint8Array): Map<string, number> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const scores = new Map<string, number>();
+
+  const readVarint = (state: { pos: number }) => {
+    let value = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = bytes[state.pos++]!;
+      value += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return value;
+  };
+
+  const skipField = (state: { pos: number }, wireType: number) => {
+    if (wireType === 0) readVarint(state);
+    else if (wireType === 1) state.pos += 8;
+    else if (wireType === 2) state.pos += readVarint(state);
+    else if (wireType === 5) state.pos += 4;
+    else throw new Error(`Unsupported protobuf wire type ${wireType} in tokenizer model`);
+  };
+
+  const outer = { pos: 0 };
+  while (outer.pos < bytes.length) {
+    const tag = readVarint(outer);
+    if (tag >>> 3 !== 1 || (tag & 7) !== 2) {
+      skipField(outer, tag & 7);
+      continue;
+    }
+
+    const end = readVarint(outer) + outer.pos;
+    const inner = { pos: outer.pos };
+    let piece = '';
+    let score = 0;
+    let type = 1;
+    while (inner.pos < end) {
+      const fieldTag = readVarint(inner);
+      const field = fieldTag >>> 3;
+      if (field === 1 && (fieldTag & 7) === 2) {
+        const length = readVarint(inner);
+        piece = decoder.decode(bytes.subarray(inner.pos, inner.pos + length));
+        inner.pos += length;
+      } else if (field === 2 && (fieldTag & 7) === 5) {
+        score = view.getFloat32(inner.pos, true);
+        inner.pos += 4;
+      } else if (field === 3 && (fieldTag & 7) === 0) {
+        type = readVarint(inner);
+      } else {
+        skipField(inner, fieldTag & 7);
+      }
+    }
+    outer.pos = end;
+
+    // Only normal and user-defined pieces take part in merges; control, unknown and byte pieces don't
+    if (type === 1 || type === 4) {
+      scores.set(piece, score);
+    }
+  }
+
+  if (!scores.size) {
+    throw new Error('The tokenizer model contains no pieces');
+  }
+  return scores;
+}
+
+/**
+ * Used when no tokenizer file is configured. Splits text the way tekken does and assumes about
+ * four bytes per token within a word, which is close for English and code.
+ */
+class EstimatingTokenizer implements MistralTokenizer {
+  readonly exact = false;
+  readonly #encoder = new TextEncoder();
+
+  constructor(readonly family: TokenizerFamily) {}
+
+  countTokens(text: string): number {
+    let tokens = 0;
+    for (const [piece] of text.matchAll(/\s*[\p{L}\p{M}]+|\p{N}|\s*[^\s\p{L}\p{N}]+|\s+/gu)) {
+      tokens += Math.max(1, Math.ceil(this.#encoder.encode(piece.trim()).length / 4));
+    }
+    return tokens;
+  }
+}
+
+const estimatingTokenizers: Record<TokenizerFamily, MistralTokenizer> = {
+  tekken: new EstimatingTokenizer('tekken'),
+  sentencepiece: new EstimatingTokenizer('sentencepiece'),
+};
+
+const loadedTokenizers = new Map<string, Promise<MistralTokenizer>>();
+
+async function readTokenizerFile(source: string, context: { nativeApi?: NativeApi; signal?: AbortSignal }): Promise<Uint8Array> {
+  if (/^https?:/.test(source)) {
+    const response = await fetch(source, { signal: context.signal });
+    if (!response.ok) {
+      throw new Error(`Could not download the tokenizer file: ${response.status} ${response.statusText}`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  if (!context.nativeApi) {
+    throw new Error('Reading a tokenizer file from disk is not supported here. Use a URL instead.');
+  }
+  return new Uint8Array(await (await context.nativeApi.readBinaryFile(source)).arrayBuffer());
+}
+
+/**
+ * The tokenizer for a model. Uses the tekken.json or tokenizer.model file configured for its
+ * family when there is one, loaded once and then reused; otherwise an estimate.
+ */
+export async function loadTokenizer(
+  context: MistralConfigContext & { nativeApi?: NativeApi },
+  model: string,
+): Promise<MistralTokenizer> {
+  const family = getTokenizerFamily(model);
+  const source = getMistralConfig(context, family === 'tekken' ? 'mistralTekkenTokenizer' : 'mistralSentencePieceTokenizer')?.trim();
+  if (!source) {
+    return estimatingTokenizers[family];
+  }
+
+  const key = `${family}\n${source}`;
+  let tokenizer = loadedTokenizers.get(key);
+  if (!tokenizer) {
+    tokenizer = readTokenizerFile(source, context)
+      .then((bytes): MistralTokenizer => family === 'tekken'
+        ? new TekkenTokenizer(JSON.parse(new TextDecoder().decode(bytes)) as TekkenFile)
+        : new SentencePieceTokenizer(bytes))
+      .catch((error) => {
+        console.warn(`Could not load the Mistral ${family} tokenizer from ${source}, estimating token counts instead:`, error);
+        return estimatingTokenizers[family];
+      });
+    loadedTokenizers.set(key, tokenizer);
+  }
+  return tokenizer;
+}
+
+// Image tokens depend on the image's resolution, which isn't known here - this assumes a medium-sized image
+const IMAGE_TOKEN_ALLOWANCE = 1024;
+
+/**
+ * Counts the tokens a chat request's messages and tools take up, including the control tokens
+ * the chat template wraps them in ([INST], [/INST], [TOOL_CALLS] and so on).
+ */
+export function countMessageTokens(tokenizer: MistralTokenizer, messages: MistralMessage[], tools?: Tool[]): number {
+  // Beginning of sequence
+  let tokens = 1;
+
+  if (tools?.length) {
+    tokens += 2 + tokenizer.countTokens(JSON.stringify(tools));
+  }
+
+  for (const message of messages) {
+    if (typeof message.content === 'string') {
+      tokens += tokenizer.countTokens(message.content);
+    } else {
+      for (const chunk of message.content) {
+        tokens += chunk.type === 'text' ? tokenizer.countTokens(chunk.text) : IMAGE_TOKEN_ALLOWANCE;
+      }
+    }
+
+    if (message.tool_calls?.length) {
+      tokens += 1 + tokenizer.countTokens(JSON.stringify(message.tool_calls.map((call) => call.function)));
+    }
+
+    switch (message.role) {
+      case 'user':
+      case 'tool':
+        // [INST] ... [/INST] or [TOOL_RESULTS] ... [/TOOL_RESULTS]
+        tokens += 2;
+        break;
+      case 'assistant':
+        // End of sequence
+        tokens += 1;
+        break;
+      case 'system':
+        // Merged into the last user message, separated by a blank line
+        tokens += 1;
+        break;
+    }
+  }
+
+  return tokens;
+}
@@ -1,5 +1,21 @@
 import type { RivetPlugin, RivetPluginInitializer } from "@ironclad/rivet-core";
 import mistralChatNode from "./nodes/mistralChatNode";
+import mistralEmbeddingNode from "./nodes/mistralEmbeddingNode";
+import mistralModerationNode from "./nodes/mistralModerationNode";
+import mistralOcrNode from "./nodes/mistralOcrNode";
+import mistralFimNode from "./nodes/mistralFimNode";
+import mistralAgentNode from "./nodes/mistralAgentNode";
+import mistralConversationNode from "./nodes/mistralConversationNode";
+import mistralBatchNode from "./nodes/mistralBatchNode";
+import mistralBatchStatusNode from "./nodes/mistralBatchStatusNode";
+import mistralBatchResultsNode from "./nodes/mistralBatchResultsNode";
+import mistralUploadFileNode from "./nodes/mistralUploadFileNode";
+import mistralFilesNode from "./nodes/mistralFilesNode";
+import mistralFineTuningJobNode from "./nodes/mistralFineTuningJobNode";
+import mistralFineTuningJobsNode from "./nodes/mistralFineTuningJobsNode";
+import mistralFineTunedModelNode from "./nodes/mistralFineTunedModelNode";
+import { MistralEmbeddingGenerator } from "./impl/mistralEmbeddingGenerator";
+import { MISTRAL_PLUGIN_ID } from "./impl/pluginConfig";
 
 const initializer: RivetPluginInitializer = (rivet) => {
   console.log("Initializing Mistral plugin...");
@@ -7,8 +23,26 @@ const initializer: RivetPluginInitializer = (rivet) => {
   const node = mistralChatNode(rivet);
   console.log("Created node:", node);
 
+  const embeddingNode = mistralEmbeddingNode(rivet);
+  const moderationNode = mistralModerationNode(rivet);
+  const ocrNode = mistralOcrNode(rivet);
+  const fimNode = mistralFimNode(rivet);
+  const agentNode = mistralAgentNode(rivet);
+  const conversationNode = mistralConversationNode(rivet);
+  const batchNode = mistralBatchNode(rivet);
+  const batchStatusNode = mistralBatchStatusNode(rivet);
+  const batchResultsNode = mistralBatchResultsNode(rivet);
+  const uploadFileNode = mistralUploadFileNode(rivet);
+  const filesNode = mistralFilesNode(rivet);
+  const fineTuningJobNode = mistralFineTuningJobNode(rivet);
+  const fineTuningJobsNode = mistralFineTuningJobsNode(rivet);
+  const fineTunedModelNode = mistralFineTunedModelNode(rivet);
+
+  // Makes "mistral" selectable as the integration in Rivet's built-in embedding nodes
+  rivet.registerIntegration("embeddingGenerator", "mistral", (context) => new MistralEmbeddingGenerator(context));
+
   const plugin: RivetPlugin = {
-    id: "rivet-plugin-mistral",
+    id: MISTRAL_PLUGIN_ID,
     name: "Mistral AI",
     configSpec: {
       mistralApiKey: {
@@ -18,16 +52,142 @@ const initializer: RivetPluginInitializer = (rivet) => {
         pullEnvironmentVariable: "MISTRAL_API_KEY",
         helperText: "You may also set the MISTRAL_API_KEY environment variable.",
       },
+      mistralApiEndpoint: {
+        type: "string",
+        label: "Mistral API Endpoint",
+        description: "The base URL of the Mistral API, or of a Mistral-compatible gateway.",
+        pullEnvironmentVariable: "MISTRAL_API_ENDPOINT",
+        helperText: "Defaults to https://api.mistral.ai/v1. You may also set the MISTRAL_API_ENDPOINT environment variable.",
+        default: "https://api.mistral.ai/v1",
+      },
+      mistralOrganization: {
+        type: "string",
+        label: "Mistral Organization",
+        description: "Optional organization identifier, sent as the Mistral-Organization header.",
+        pullEnvironmentVariable: "MISTRAL_ORGANIZATION",
+        helperText: "You may also set the MISTRAL_ORGANIZATION environment variable.",
+      },
+      mistralCustomHeaders: {
+        type: "string",
+        label: "Custom Headers",
+        description: "Extra headers sent with every Mistral request, e.g. for gateway routing.",
+        pullEnvironmentVariable: "MISTRAL_CUSTOM_HEADERS",
+        helperText: 'Either a JSON object ({"X-Header": "value"}) or one "Name: value" pair per line.',
+      },
+      mistralRequestTimeout: {
+        type: "string",
+        label: "Request Timeout (ms)",
+        description: "How long to wait for the Mistral API to respond before failing the request.",
+        pullEnvironmentVariable: "MISTRAL_REQUEST_TIMEOUT",
+        helperText: "Leave empty or set to 0 to wait indefinitely.",
+      },
+      mistralMaxRetries: {
+        type: "string",
+        label: "Max Retries",
+        description: "How many times to retry a request that was rate limited (429) or failed with a server error. Requests other than reads are only retried if they were rate limited, the service was unavailable (503) or the connection failed.",
+        pullEnvironmentVariable: "MISTRAL_MAX_RETRIES",
+        helperText: "Defaults to 2. Set to 0 to disable retries. Nodes may override this.",
+      },
+      mistralRetryBaseDelay: {
+        type: "string",
+        label: "Retry Base Delay (ms)",
+        description: "Delay before the first retry, doubled for each retry after that. A Retry-After header from the API takes precedence.",
+        pullEnvironmentVariable: "MISTRAL_RETRY_BASE_DELAY",
+        helperText: "Defaults to 1000.",
+      },
+      mistralRetryJitter: {
+        type: "string",
+        label: "Retry Jitter",
+        description: "Whether to randomize retry delays so parallel requests don't retry at the same moment.",
+        pullEnvironmentVariable: "MISTRAL_RETRY_JITTER",
+        helperText: "true or false. Defaults to true.",
+      },
+      mistralModelCacheTtl: {
+        type: "string",
+        label: "Model List Cache (minutes)",
+        description: "How long the list of available models, fetched from the Mistral API, is reused before it is fetched again.",
+        pullEnvironmentVariable: "MISTRAL_MODEL_CACHE_TTL",
+        helperText: "Defaults to 60. Set to 0 to only use the models built into the plugin.",
+      },
+      mistralPriceOverrides: {
+        type: "string",
+        label: "Price Overrides",
+        description: "Negotiated prices that replace the list prices used for cost estimates, per model and currency.",
+        pullEnvironmentVariable: "MISTRAL_PRICE_OVERRIDES",
+        helperText: 'JSON, e.g. {"mistral-large-latest": {"USD": {"input": 1.5, "output": 4.5}}}. Prices are per 1M input/output tokens, or perPage / perAudioMinute.',
+      },
+      mistralTekkenTokenizer: {
+        type: "string",
+        label: "Tekken Tokenizer File",
+        description: "Path or URL of a tekken.json file, used to count tokens exactly for Nemo, Ministral, Mistral Small, Codestral and other tekken models.",
+        pullEnvironmentVariable: "MISTRAL_TEKKEN_TOKENIZER",
+        helperText: "No tokenizer files are bundled with the plugin. Without one, token counts for these models are estimated at about four bytes per token, which can be well off for other languages. Mistral publishes the file with each model's weights on Hugging Face.",
+      },
+      mistralSentencePieceTokenizer: {
+        type: "string",
+        label: "SentencePiece Tokenizer File",
+        description: "Path or URL of a tokenizer.model file, used to count tokens exactly for Mistral Large, Mixtral and other SentencePiece models.",
+        pullEnvironmentVariable: "MISTRAL_SENTENCEPIECE_TOKENIZER",
+        helperText: "No tokenizer files are bundled with the plugin. Without one, token counts for these models are estimated at about four bytes per token, which can be well off for other languages. Mistral publishes the file (tokenizer.model or tokenizer.model.v3) with each model's weights on Hugging Face.",
+      },
+      mistralResponseCacheDir: {
+        type: "string",
+        label: "Response Cache Directory",
+        description: "Directory where chat nodes using the file response cache store their responses, one JSON file per request.",
+        pullEnvironmentVariable: "MISTRAL_RESPONSE_CACHE_DIR",
+        helperText: "The directory must already exist.",
+      },
+      mistralWandbApiKey: {
+        type: "secret",
+        label: "Weights & Biases API Key",
+        description: "Used by fine-tuning jobs that report their metrics to a Weights & Biases project.",
+        pullEnvironmentVariable: "WANDB_API_KEY",
+        helperText: "You may also set the WANDB_API_KEY environment variable.",
+      },
     },
     contextMenuGroups: [
       {
         id: "ai-chat-mistral",
         label: "AI/Chat (Mistral)",
       },
+      {
+        id: "ai-embeddings-mistral",
+        label: "AI/Embeddings (Mistral)",
+      },
+      {
+        id: "ai-documents-mistral",
+        label: "AI/Documents (Mistral)",
+      },
+      {
+        id: "ai-batch-mistral",
+        label: "AI/Batch (Mistral)",
+      },
+      {
+        id: "ai-files-mistral",
+        label: "AI/Files (Mistral)",
+      },
+      {
+        id: "ai-fine-tuning-mistral",
+        label: "AI/Fine-tuning (Mistral)",
+      },
     ],
     register: (register) => {
-      console.log("Registering Mistral node...");
+      console.log("Registering Mistral nodes...");
       register(node);
+      register(embeddingNode);
+      register(moderationNode);
+      register(ocrNode);
+      register(fimNode);
+      register(agentNode);
+      register(conversationNode);
+      register(batchNode);
+      register(batchStatusNode);
+      register(batchResultsNode);
+      register(uploadFileNode);
+      register(filesNode);
+      register(fineTuningJobNode);
+      register(fineTuningJobsNode);
+      register(fineTunedModelNode);
     },
   };
 
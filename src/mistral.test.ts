@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { joinContinuation, mergeToolCallDeltas, parseToolCall, tryParseToolCall, type ToolCall } from './mistral.js';
+
+function toolCall(id: string, name: string, args: string): ToolCall {
+  return { id, type: 'function', function: { name, arguments: args } };
+}
+
+describe('parseToolCall', () => {
+  it('parses JSON arguments', () => {
+    assert.deepEqual(parseToolCall(toolCall('a', 'search', '{"query":"rivet"}')), {
+      id: 'a',
+      name: 'search',
+      arguments: { query: 'rivet' },
+    });
+  });
+
+  it('treats empty arguments as no arguments', () => {
+    assert.deepEqual(parseToolCall(toolCall('a', 'now', '  ')).arguments, {});
+  });
+
+  it('accepts arguments sent as an object', () => {
+    const call = { id: 'a', type: 'function', function: { name: 'search', arguments: { query: 'rivet' } } } as unknown as ToolCall;
+    assert.deepEqual(parseToolCall(call).arguments, { query: 'rivet' });
+  });
+
+  it('throws on invalid JSON, naming the tool', () => {
+    assert.throws(() => parseToolCall(toolCall('a', 'search', '{"query":')), /"search"/);
+  });
+});
+
+describe('tryParseToolCall', () => {
+  it('returns undefined for incomplete arguments', () => {
+    assert.equal(tryParseToolCall(toolCall('a', 'search', '{"query":"ri')), undefined);
+  });
+
+  it('parses complete arguments', () => {
+    assert.deepEqual(tryParseToolCall(toolCall('a', 'search', '{}'))?.arguments, {});
+  });
+});
+
+describe('mergeToolCallDeltas', () => {
+  it('adds calls with new ids', () => {
+    const merged = mergeToolCallDeltas([toolCall('a', 'search', '{}')], [toolCall('b', 'fetch', '{}')]);
+    assert.deepEqual(merged.map((call) => call.id), ['a', 'b']);
+  });
+
+  it('appends arguments to the call with the same id', () => {
+    const merged = mergeToolCallDeltas([toolCall('a', 'search', '{"query":')], [toolCall('a', '', '"rivet"}')]);
+    assert.equal(merged.length, 1);
+    assert.equal(merged[0]!.function.name, 'search');
+    assert.equal(merged[0]!.function.arguments, '{"query":"rivet"}');
+  });
+
+  it('appends pieces without an id to the last call', () => {
+    const merged = mergeToolCallDeltas(
+      [toolCall('a', 'search', '{}'), toolCall('b', 'fetch', '{"url":')],
+      [toolCall('', '', '"https://mistral.ai"}')],
+    );
+    assert.deepEqual(merged.map((call) => call.function.arguments), ['{}', '{"url":"https://mistral.ai"}']);
+  });
+
+  it('stringifies arguments sent as an object', () => {
+    const delta = { id: 'a', type: 'function', function: { name: 'search', arguments: { query: 'rivet' } } } as unknown as ToolCall;
+    const merged = mergeToolCallDeltas([], [delta]);
+    assert.equal(merged[0]!.function.arguments, '{"query":"rivet"}');
+    assert.deepEqual(parseToolCall(merged[0]!).arguments, { query: 'rivet' });
+  });
+
+  it('does not change the accumulated list', () => {
+    const toolCalls = [toolCall('a', 'search', '{')];
+    mergeToolCallDeltas(toolCalls, [toolCall('a', '', '}')]);
+    assert.equal(toolCalls[0]!.function.arguments, '{');
+  });
+});
+
+describe('joinContinuation', () => {
+  const reply = 'The quick brown fox jumps over the lazy dog, ';
+
+  it('adds the continuation after the reply', () => {
+    assert.equal(joinContinuation(reply, 'and runs away.'), `${reply}and runs away.`);
+  });
+
+  it('returns the continuation when there is no reply yet', () => {
+    assert.equal(joinContinuation('', 'Hello'), 'Hello');
+  });
+
+  it('leaves out the reply when the continuation repeats all of it', () => {
+    assert.equal(joinContinuation(reply, `${reply}and runs away.`), `${reply}and runs away.`);
+  });
+
+  it('leaves out the end of the reply when the continuation repeats it', () => {
+    assert.equal(joinContinuation(reply, 'over the lazy dog, and runs away.'), `${reply}and runs away.`);
+  });
+
+  it('keeps a short continuation that matches the start of the reply', () => {
+    assert.equal(joinContinuation('The the', ' the'), 'The the the');
+    assert.equal(joinContinuation(reply, 'The'), `${reply}The`);
+  });
+
+  it('keeps text that only appears earlier in the reply', () => {
+    assert.equal(joinContinuation(reply, 'The quick brown fox again.'), `${reply}The quick brown fox again.`);
+  });
+});
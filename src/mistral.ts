@@ -2,7 +2,12 @@ import type {
   ChatMessage as RivetChatMessage, 
   SystemChatMessage, 
   UserChatMessage, 
-  AssistantChatMessage 
+  AssistantChatMessage,
+  AssistantChatMessageFunctionCall,
+  FunctionResponseChatMessage,
+  ParsedAssistantChatMessageFunctionCall,
+  GptFunction,
+  ChatMessageMessagePart,
 } from '@ironclad/rivet-core';
 
 export type ToolCall = {
@@ -14,27 +19,70 @@ export type ToolCall = {
   };
 };
 
+// A function the model may call, in Mistral's `tools` format
+export type Tool = {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: object;
+  };
+};
+
+// `any` forces a tool call, `none` prevents one, an object forces a specific function
+export type ToolChoice =
+  | 'auto'
+  | 'any'
+  | 'none'
+  | 'required'
+  | { type: 'function'; function: { name: string } };
+
+// A part of a multimodal message; images are sent as URLs or base64 data URLs
+export type ContentChunk =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: string | { url: string; detail?: string } };
+
 // Mistral's message format
 export type MistralMessage = {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | ContentChunk[];
   tool_calls?: ToolCall[];
+  // Only set on `tool` messages: the id of the call this is a result for, and the function's name
+  tool_call_id?: string;
+  name?: string;
+  // Only on a final `assistant` message: the reply continues on from its content
+  prefix?: boolean;
+};
+
+export type Currency = 'USD' | 'EUR';
+
+// Prices for one currency. Each model only has the units it is billed in.
+export type ModelPrice = {
+  /** Per 1M input (prompt) tokens */
+  input?: number;
+  /** Per 1M output (completion) tokens */
+  output?: number;
+  perPage?: number;
+  perAudioMinute?: number;
 };
 
+export type ModelCapability =
+  | 'chat'
+  | 'vision'
+  | 'tools'
+  // JSON mode and JSON-schema structured output
+  | 'json_schema'
+  | 'fim'
+  | 'embedding'
+  | 'moderation'
+  | 'ocr';
+
 export type MistralModel = {
   maxTokens: number;
-  cost: {
-    prompt: {
-      USD: string;
-      EUR: string;
-    };
-    completion: {
-      USD: string;
-      EUR: string;
-    };
-  };
+  cost: Record<Currency, ModelPrice>;
   displayName: string;
   contextLength: number;
+  capabilities: readonly ModelCapability[];
 };
 
 export const mistralModels = {
@@ -42,242 +90,437 @@ export const mistralModels = {
   'mistral-large-latest': {
     maxTokens: 131072,
     cost: {
-      prompt: {
-        USD: "$2",
-        EUR: "1.8 €"
-      },
-      completion: {
-        USD: "$6",
-        EUR: "5.4 €"
-      }
+      USD: { input: 2, output: 6 },
+      EUR: { input: 1.8, output: 5.4 },
     },
     displayName: 'Mistral Large 24.11',
     contextLength: 131072,
+    capabilities: ['chat', 'tools', 'json_schema'],
   },
   'pixtral-large-latest': {
     maxTokens: 131072,
     cost: {
-      prompt: {
-        USD: "$2",
-        EUR: "1.8 €"
-      },
-      completion: {
-        USD: "$6",
-        EUR: "5.4 €"
-      }
+      USD: { input: 2, output: 6 },
+      EUR: { input: 1.8, output: 5.4 },
     },
     displayName: 'Pixtral Large',
     contextLength: 131072,
+    capabilities: ['chat', 'vision', 'tools', 'json_schema'],
   },
   'mistral-saba-latest': {
     maxTokens: 32768,
     cost: {
-      prompt: {
-        USD: "$0.2",
-        EUR: "0.2 €"
-      },
-      completion: {
-        USD: "$0.6",
-        EUR: "0.6 €"
-      }
+      USD: { input: 0.2, output: 0.6 },
+      EUR: { input: 0.2, output: 0.6 },
     },
     displayName: 'Mistral Saba',
     contextLength: 32768,
+    capabilities: ['chat', 'tools', 'json_schema'],
   },
   'codestral-latest': {
     maxTokens: 262144, // 256k
     cost: {
-      prompt: {
-        USD: "$0.3",
-        EUR: "0.3 €"
-      },
-      completion: {
-        USD: "$0.9",
-        EUR: "0.9 €"
-      }
+      USD: { input: 0.3, output: 0.9 },
+      EUR: { input: 0.3, output: 0.9 },
     },
     displayName: 'Codestral',
     contextLength: 262144,
+    capabilities: ['chat', 'tools', 'json_schema', 'fim'],
   },
   'ministral-8b-latest': {
     maxTokens: 131072,
     cost: {
-      prompt: {
-        USD: "$0.1",
-        EUR: "0.09 €"
-      },
-      completion: {
-        USD: "$0.1",
-        EUR: "0.09 €"
-      }
+      USD: { input: 0.1, output: 0.1 },
+      EUR: { input: 0.09, output: 0.09 },
     },
     displayName: 'Ministral 8B 24.10',
     contextLength: 131072,
+    capabilities: ['chat', 'tools', 'json_schema'],
   },
   'ministral-3b-latest': {
     maxTokens: 131072,
     cost: {
-      prompt: {
-        USD: "$0.04",
-        EUR: "0.04 €"
-      },
-      completion: {
-        USD: "$0.04",
-        EUR: "0.04 €"
-      }
+      USD: { input: 0.04, output: 0.04 },
+      EUR: { input: 0.04, output: 0.04 },
     },
     displayName: 'Ministral 3B 24.10',
     contextLength: 131072,
+    capabilities: ['chat', 'tools', 'json_schema'],
   },
   'mistral-embed': {
     maxTokens: 8192,
     cost: {
-      prompt: {
-        USD: "$0.1",
-        EUR: "0.09 €"
-      },
-      completion: {
-        USD: "-",
-        EUR: "-"
-      }
+      USD: { input: 0.1 },
+      EUR: { input: 0.09 },
     },
     displayName: 'Mistral Embed',
     contextLength: 8192,
+    capabilities: ['embedding'],
   },
   'mistral-moderation-latest': {
     maxTokens: 8192,
     cost: {
-      prompt: {
-        USD: "$0.1",
-        EUR: "0.09 €"
-      },
-      completion: {
-        USD: "-",
-        EUR: "-"
-      }
+      USD: { input: 0.1 },
+      EUR: { input: 0.09 },
     },
     displayName: 'Mistral Moderation 24.11',
     contextLength: 8192,
+    capabilities: ['moderation'],
   },
   'mistral-ocr-latest': {
     maxTokens: 0, // Not applicable for OCR
     cost: {
-      prompt: {
-        USD: "1000 Pages / $1",
-        EUR: "1000 Pages / 1€"
-      },
-      completion: {
-        USD: "-",
-        EUR: "-"
-      }
+      USD: { perPage: 0.001 },
+      EUR: { perPage: 0.001 },
     },
     displayName: 'Mistral OCR',
     contextLength: 0,
+    capabilities: ['ocr'],
   },
   
   // Other models
   'mistral-small-latest': {
     maxTokens: 131072,
     cost: {
-      prompt: {
-        USD: "$0.1",
-        EUR: "0.09 €"
-      },
-      completion: {
-        USD: "$0.3",
-        EUR: "0.27 €"
-      }
+      USD: { input: 0.1, output: 0.3 },
+      EUR: { input: 0.09, output: 0.27 },
     },
     displayName: 'Mistral Small',
     contextLength: 131072,
+    capabilities: ['chat', 'vision', 'tools', 'json_schema'],
   },
   'open-mistral-7b': {
     maxTokens: 32768,
     cost: {
-      prompt: {
-        USD: "$0.25",
-        EUR: "0.23 €"
-      },
-      completion: {
-        USD: "$0.25",
-        EUR: "0.23 €"
-      }
+      USD: { input: 0.25, output: 0.25 },
+      EUR: { input: 0.23, output: 0.23 },
     },
     displayName: 'Open Mistral 7B',
     contextLength: 32768,
+    capabilities: ['chat', 'json_schema'],
   },
   'open-mixtral-8x7b': {
     maxTokens: 32768,
     cost: {
-      prompt: {
-        USD: "$0.7",
-        EUR: "0.63 €"
-      },
-      completion: {
-        USD: "$0.7",
-        EUR: "0.63 €"
-      }
+      USD: { input: 0.7, output: 0.7 },
+      EUR: { input: 0.63, output: 0.63 },
     },
     displayName: 'Open Mixtral 8x7B',
     contextLength: 32768,
+    capabilities: ['chat', 'json_schema'],
   },
   'open-mixtral-8x22b': {
     maxTokens: 64000,
     cost: {
-      prompt: {
-        USD: "$2",
-        EUR: "1.8 €"
-      },
-      completion: {
-        USD: "$6",
-        EUR: "5.4 €"
-      }
+      USD: { input: 2, output: 6 },
+      EUR: { input: 1.8, output: 5.4 },
     },
     displayName: 'Open Mixtral 8x22B',
     contextLength: 64000,
+    capabilities: ['chat', 'tools', 'json_schema'],
   },
 } as const;
 
+function uint8ArrayToBase64(data: Uint8Array): string {
+  let binary = '';
+  // Chunked so large images don't overflow the argument limit of fromCharCode
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToUint8Array(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const data = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    data[i] = binary.charCodeAt(i);
+  }
+  return data;
+}
+
+function getMessageParts(rivetMessage: RivetChatMessage): ChatMessageMessagePart[] {
+  return Array.isArray(rivetMessage.message) ? rivetMessage.message : [rivetMessage.message];
+}
+
+// Only the text parts of a Rivet message can be sent as plain string content
+function getMessageText(rivetMessage: RivetChatMessage): string {
+  return getMessageParts(rivetMessage).filter((part): part is string => typeof part === 'string').join('\n\n');
+}
+
+export function createImageChunk(mediaType: string, data: Uint8Array): ContentChunk {
+  return {
+    type: 'image_url',
+    image_url: `data:${mediaType};base64,${uint8ArrayToBase64(data)}`,
+  };
+}
+
+export function convertToContentChunk(part: ChatMessageMessagePart): ContentChunk {
+  if (typeof part === 'string') {
+    return { type: 'text', text: part };
+  }
 
-export type MistralModels = keyof typeof mistralModels;
+  switch (part.type) {
+    case 'image':
+      return createImageChunk(part.mediaType, part.data);
+    case 'url':
+      return { type: 'image_url', image_url: part.url };
+    case 'document':
+      if (part.mediaType === 'text/plain') {
+        return { type: 'text', text: new TextDecoder().decode(part.data) };
+      }
+      throw new Error(`Document parts of type ${part.mediaType} cannot be sent to Mistral chat models.`);
+  }
+}
 
-export const mistralModelOptions = Object.entries(mistralModels).map(([id, { displayName }]) => ({
-  value: id,
-  label: displayName,
-}));
+/** Text-only messages stay plain strings; anything with images becomes a list of content chunks. */
+function getUserContent(rivetMessage: RivetChatMessage): string | ContentChunk[] {
+  const parts = getMessageParts(rivetMessage);
+  if (parts.every((part) => typeof part === 'string')) {
+    return getMessageText(rivetMessage);
+  }
+  return parts.map(convertToContentChunk);
+}
+
+export function getContentText(content: string | ContentChunk[]): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .filter((chunk): chunk is Extract<ContentChunk, { type: 'text' }> => chunk.type === 'text')
+    .map((chunk) => chunk.text)
+    .join('\n\n');
+}
+
+export function hasImageContent(messages: MistralMessage[]): boolean {
+  return messages.some((message) =>
+    Array.isArray(message.content) && message.content.some((chunk) => chunk.type === 'image_url'));
+}
 
-export function convertToMistralMessage(rivetMessage: RivetChatMessage): MistralMessage {
-  // Ensure we only use valid Mistral roles
-  let role: 'system' | 'user' | 'assistant';
+function convertFromContentChunk(chunk: ContentChunk): ChatMessageMessagePart {
+  if (chunk.type === 'text') {
+    return chunk.text;
+  }
+
+  const url = typeof chunk.image_url === 'string' ? chunk.image_url : chunk.image_url.url;
+  const dataUrl = url.match(/^data:(image\/(?:jpeg|png|gif));base64,(.*)$/);
+  if (dataUrl) {
+    return {
+      type: 'image',
+      mediaType: dataUrl[1] as 'image/jpeg' | 'image/png' | 'image/gif',
+      data: base64ToUint8Array(dataUrl[2]!),
+    };
+  }
+  return { type: 'url', url };
+}
+
+/**
+ * Converts a single Rivet message. Rivet stores the tool call id of a function result in `name`
+ * (the same convention its OpenAI nodes use), so pass `functionNames` to also recover the name of
+ * the function that was called - see convertToMistralMessages.
+ */
+export function convertToMistralMessage(
+  rivetMessage: RivetChatMessage,
+  functionNames: Map<string, string> = new Map(),
+): MistralMessage {
   switch (rivetMessage.type) {
     case 'system':
-      role = 'system';
-      break;
+      return {
+        role: 'system',
+        content: getMessageText(rivetMessage),
+      };
     case 'user':
-      role = 'user';
-      break;
-    case 'assistant':
-      role = 'assistant';
-      break;
+      return {
+        role: 'user',
+        content: getUserContent(rivetMessage),
+      };
+    case 'assistant': {
+      const functionCalls = rivetMessage.function_calls?.length
+        ? rivetMessage.function_calls
+        : rivetMessage.function_call
+          ? [rivetMessage.function_call]
+          : [];
+
+      return {
+        role: 'assistant',
+        content: getMessageText(rivetMessage),
+        tool_calls: functionCalls.length
+          ? functionCalls.map((functionCall) => ({
+              id: functionCall.id ?? 'unknown_function_call',
+              type: 'function',
+              function: {
+                name: functionCall.name,
+                arguments: functionCall.arguments,
+              },
+            }))
+          : undefined,
+      };
+    }
+    case 'function':
+      return {
+        role: 'tool',
+        content: getMessageText(rivetMessage),
+        tool_call_id: rivetMessage.name,
+        name: functionNames.get(rivetMessage.name),
+      };
     default:
-      role = 'user'; // Default to user for any other type
+      throw new Error(`Unsupported chat message type: ${(rivetMessage as RivetChatMessage).type}`);
   }
+}
 
-  return {
-    role,
-    content: typeof rivetMessage.message === 'string' ? rivetMessage.message : rivetMessage.message.toString()
-  };
+/**
+ * Converts a Rivet conversation, matching each function result to the assistant tool call it
+ * answers so the `tool` message carries both the call id and the function name.
+ */
+export function convertToMistralMessages(rivetMessages: RivetChatMessage[]): MistralMessage[] {
+  const functionNames = new Map<string, string>();
+
+  return rivetMessages.map((rivetMessage) => {
+    const message = convertToMistralMessage(rivetMessage, functionNames);
+    for (const toolCall of message.tool_calls ?? []) {
+      functionNames.set(toolCall.id, toolCall.function.name);
+    }
+    return message;
+  });
+}
+
+/** The inverse of convertToMistralMessage, used to rebuild the "All Messages" output. */
+export function convertFromMistralMessage(message: MistralMessage): RivetChatMessage {
+  switch (message.role) {
+    case 'system':
+      return createSystemMessage(getContentText(message.content));
+    case 'user':
+      return typeof message.content === 'string'
+        ? createUserMessage(message.content)
+        : { type: 'user', message: message.content.map(convertFromContentChunk) };
+    case 'assistant':
+      return createAssistantMessage(getContentText(message.content), message.tool_calls);
+    case 'tool':
+      return createFunctionMessage(getContentText(message.content), message.tool_call_id ?? 'unknown_function_call');
+  }
 }
 
-export function createAssistantMessage(content: string): AssistantChatMessage {
+export function createAssistantMessage(content: string, toolCalls: ToolCall[] = []): AssistantChatMessage {
+  const functionCalls = convertToolCallsToFunctionCalls(toolCalls);
   return {
     type: 'assistant',
     message: content,
-    function_call: undefined,
-    function_calls: [],
+    function_call: functionCalls[0],
+    function_calls: functionCalls,
+  };
+}
+
+export function convertGptFunctionToTool(gptFunction: GptFunction): Tool {
+  return {
+    type: 'function',
+    function: {
+      name: gptFunction.name,
+      description: gptFunction.description,
+      parameters: gptFunction.parameters,
+    },
+  };
+}
+
+export function convertToolCallsToFunctionCalls(toolCalls: ToolCall[]): AssistantChatMessageFunctionCall[] {
+  return toolCalls.map((toolCall) => ({
+    id: toolCall.id,
+    name: toolCall.function.name,
+    arguments: toolCall.function.arguments,
+  }));
+}
+
+export function parseToolCall(toolCall: ToolCall): ParsedAssistantChatMessageFunctionCall {
+  let args: Record<string, unknown>;
+  try {
+    // Mistral sometimes sends arguments as an object rather than a JSON string
+    const raw: unknown = toolCall.function.arguments;
+    args = typeof raw === 'string' ? (raw.trim() ? JSON.parse(raw) : {}) : (raw as Record<string, unknown>);
+  } catch (e) {
+    throw new Error(`Mistral returned invalid JSON arguments for tool call "${toolCall.function.name}": ${toolCall.function.arguments}`);
+  }
+
+  return {
+    id: toolCall.id,
+    name: toolCall.function.name,
+    arguments: args,
   };
 }
 
+/**
+ * Like parseToolCall, but returns undefined instead of throwing when the arguments are not valid
+ * JSON, e.g. because they are still streaming in.
+ */
+export function tryParseToolCall(toolCall: ToolCall): ParsedAssistantChatMessageFunctionCall | undefined {
+  try {
+    return parseToolCall(toolCall);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Folds streamed tool call deltas into the accumulated list. Mistral usually sends each call
+ * whole, but arguments may also arrive in pieces for the same call id.
+ */
+export function mergeToolCallDeltas(toolCalls: ToolCall[], deltas: ToolCall[]): ToolCall[] {
+  // Arguments sent as an object are complete, so they are stringified rather than appended as "[object Object]"
+  const getArguments = (toolCall: ToolCall): string => {
+    const raw: unknown = toolCall.function.arguments;
+    return typeof raw === 'string' ? raw : raw == null ? '' : JSON.stringify(raw);
+  };
+
+  const merged = [...toolCalls];
+  for (const delta of deltas) {
+    // Continuation pieces may omit the id, in which case they belong to the last call
+    const existingIndex = delta.id
+      ? merged.findIndex((toolCall) => toolCall.id === delta.id)
+      : merged.length - 1;
+
+    if (existingIndex === -1) {
+      merged.push({
+        id: delta.id,
+        type: 'function',
+        function: {
+          name: delta.function.name,
+          arguments: getArguments(delta),
+        },
+      });
+    } else {
+      const existing = merged[existingIndex]!;
+      merged[existingIndex] = {
+        ...existing,
+        function: {
+          name: existing.function.name || delta.function.name,
+          arguments: getArguments(existing) + getArguments(delta),
+        },
+      };
+    }
+  }
+  return merged;
+}
+
+// Shorter overlaps are as likely to be a coincidence as a repeat
+const MIN_CONTINUATION_OVERLAP = 16;
+
+/**
+ * Adds a continuation to the reply it continues. The API sometimes repeats the end of the reply,
+ * or all of it, at the start of the continuation; only that overlap is left out.
+ */
+export function joinContinuation(prefix: string, text: string): string {
+  const head = text.slice(0, MIN_CONTINUATION_OVERLAP);
+  if (head.length < MIN_CONTINUATION_OVERLAP) {
+    return prefix + text;
+  }
+
+  // The earliest match is the longest overlap
+  for (let start = prefix.indexOf(head); start >= 0; start = prefix.indexOf(head, start + 1)) {
+    if (text.startsWith(prefix.slice(start))) {
+      return prefix + text.slice(prefix.length - start);
+    }
+  }
+  return prefix + text;
+}
+
 export function createSystemMessage(content: string): SystemChatMessage {
   return {
     type: 'system',
@@ -292,18 +535,10 @@ export function createUserMessage(content: string): UserChatMessage {
   };
 }
 
-export function estimateTokenCount(text: string): number {
-  // A very simple estimation - about 4 characters per token for English text
-  // This is a rough approximation and will vary by language and content
-  if (!text) return 0;
-  
-  // Count words (roughly 0.75 tokens per word)
-  const wordCount = text.split(/\s+/).length;
-  const wordTokens = wordCount * 0.75;
-  
-  // Count characters (roughly 0.25 tokens per character)
-  const charTokens = text.length * 0.25;
-  
-  // Average the two approaches for a slightly better estimate
-  return Math.ceil((wordTokens + charTokens) / 2);
+export function createFunctionMessage(content: string, toolCallId: string): FunctionResponseChatMessage {
+  return {
+    type: 'function',
+    message: content,
+    name: toolCallId,
+  };
 }
@@ -1,6 +1,53 @@
 export * from "./impl/mistralApi";
+export * from "./impl/embeddingsApi";
+export * from "./impl/mistralEmbeddingGenerator";
+export * from "./impl/moderationApi";
+export * from "./impl/ocrApi";
+export * from "./impl/fimApi";
+export * from "./impl/agentsApi";
+export * from "./impl/conversationsApi";
+export * from "./impl/filesApi";
+export * from "./impl/batchApi";
+export * from "./impl/fineTuningApi";
+export * from "./impl/modelsApi";
+export * from "./impl/modelRegistry";
+export * from "./impl/pricing";
+export * from "./impl/tokenizer";
+export * from "./impl/contextWindow";
+export * from "./impl/responseCache";
+export * from "./impl/pluginConfig";
 export * from "./mistral";
 
 // Explicitly export the node implementation function
 import mistralChatNode from "./nodes/mistralChatNode";
-export { mistralChatNode };
\ No newline at end of file
+import mistralEmbeddingNode from "./nodes/mistralEmbeddingNode";
+import mistralModerationNode from "./nodes/mistralModerationNode";
+import mistralOcrNode from "./nodes/mistralOcrNode";
+import mistralFimNode from "./nodes/mistralFimNode";
+import mistralAgentNode from "./nodes/mistralAgentNode";
+import mistralConversationNode from "./nodes/mistralConversationNode";
+import mistralBatchNode from "./nodes/mistralBatchNode";
+import mistralBatchStatusNode from "./nodes/mistralBatchStatusNode";
+import mistralBatchResultsNode from "./nodes/mistralBatchResultsNode";
+import mistralUploadFileNode from "./nodes/mistralUploadFileNode";
+import mistralFilesNode from "./nodes/mistralFilesNode";
+import mistralFineTuningJobNode from "./nodes/mistralFineTuningJobNode";
+import mistralFineTuningJobsNode from "./nodes/mistralFineTuningJobsNode";
+import mistralFineTunedModelNode from "./nodes/mistralFineTunedModelNode";
+export {
+  mistralChatNode,
+  mistralEmbeddingNode,
+  mistralModerationNode,
+  mistralOcrNode,
+  mistralFimNode,
+  mistralAgentNode,
+  mistralConversationNode,
+  mistralBatchNode,
+  mistralBatchStatusNode,
+  mistralBatchResultsNode,
+  mistralUploadFileNode,
+  mistralFilesNode,
+  mistralFineTuningJobNode,
+  mistralFineTuningJobsNode,
+  mistralFineTunedModelNode,
+};
@@ -0,0 +1,436 @@
+import type {
+  ChartNode,
+  EditorDefinition,
+  Inputs,
+  InternalProcessContext,
+  NodeId,
+  NodeInputDefinition,
+  NodeOutputDefinition,
+  NodeUIData,
+  Outputs,
+  PluginNodeImpl,
+  PortId,
+  Rivet,
+  ChatMessage as RivetChatMessage,
+} from '@ironclad/rivet-core';
+import {
+  convertGptFunctionToTool,
+  convertToMistralMessages,
+  createUserMessage,
+  type MistralMessage,
+  type Tool,
+  type ToolChoice,
+} from '../mistral.js';
+import {
+  createAgentCompletion,
+  streamAgentCompletion,
+  type AgentCompletionOptions,
+} from '../impl/agentsApi.js';
+import {
+  completionInfoOutputDefinitions,
+  readCompletionStream,
+  setCompletionInfoOutputs,
+  setResponseOutputs,
+  type StreamedCompletion,
+} from '../impl/completionOutputs.js';
+import { withTimeout } from '../impl/mistralApi.js';
+import { calculateCost } from '../impl/pricing.js';
+import { countMessageTokens, loadTokenizer } from '../impl/tokenizer.js';
+import {
+  applyRetryOverrides,
+  getMistralRequestOptions,
+  getPriceOverrides,
+  retryEditors,
+  type RetryOverrideData,
+} from '../impl/pluginConfig.js';
+
+export type MistralAgentNode = ChartNode<'mistralAgent', MistralAgentNodeData>;
+
+export type MistralAgentNodeData = RetryOverrideData & {
+  agentId: string;
+  useAgentIdInput: boolean;
+  // Unset means the agent's own setting
+  maxTokens?: number;
+  useMaxTokensInput: boolean;
+  useMessagesInput: boolean;
+  useStream: boolean;
+  useRandomSeed?: boolean;
+  randomSeed?: number;
+  // Functions from the graph, in addition to the tools configured on the agent
+  enableToolCalling?: boolean;
+  toolChoice?: 'auto' | 'any' | 'none' | 'function';
+  toolChoiceFunction?: string;
+  parallelToolCalls?: boolean;
+  currency: 'USD' | 'EUR';
+  // Limit for the whole request, including streaming; unset means no limit
+  timeoutMs?: number;
+};
+
+export default function (rivet: typeof Rivet) {
+  const nodeImpl: PluginNodeImpl<MistralAgentNode> = {
+    create(): MistralAgentNode {
+      return {
+        id: rivet.newId<NodeId>(),
+        type: 'mistralAgent',
+        title: 'Mistral Agent',
+        data: {
+          agentId: '',
+          useAgentIdInput: false,
+          maxTokens: undefined,
+          useMaxTokensInput: false,
+          useMessagesInput: false,
+          useStream: true,
+          useRandomSeed: false,
+          randomSeed: undefined,
+          enableToolCalling: false,
+          toolChoice: 'auto',
+          toolChoiceFunction: '',
+          parallelToolCalls: true,
+          currency: 'USD',
+          maxRetries: undefined,
+          retryBaseDelayMs: undefined,
+          timeoutMs: undefined,
+        },
+        visualData: {
+          x: 0,
+          y: 0,
+          width: 300,
+        },
+      };
+    },
+
+    // Port ids match the chat node's, so the two can be swapped without rewiring
+    getInputDefinitions(data): NodeInputDefinition[] {
+      const inputs: NodeInputDefinition[] = [];
+
+      if (data.useAgentIdInput) {
+        inputs.push({
+          id: 'agentId' as PortId,
+          title: 'Agent ID',
+          dataType: 'string',
+          required: true,
+        });
+      }
+
+      if (data.useMaxTokensInput) {
+        inputs.push({
+          dataType: 'number',
+          id: 'maxTokens' as PortId,
+          title: 'Max Tokens',
+        });
+      }
+
+      if (data.useMessagesInput) {
+        inputs.push({
+          dataType: 'chat-message[]',
+          id: 'messages' as PortId,
+          title: 'Messages',
+        });
+      } else {
+        inputs.push({
+          dataType: ['chat-message', 'chat-message[]', 'string', 'string[]'],
+          id: 'prompt' as PortId,
+          title: 'Prompt',
+        });
+      }
+
+      if (data.enableToolCalling) {
+        inputs.push({
+          dataType: ['gpt-function', 'gpt-function[]'],
+          id: 'tools' as PortId,
+          title: 'Tools',
+          description: 'Functions the agent may call, in addition to the tools configured on the agent.',
+        });
+      }
+
+      return inputs;
+    },
+
+    getOutputDefinitions(): NodeOutputDefinition[] {
+      return [
+        {
+          id: 'response' as PortId,
+          title: 'Response',
+          dataType: 'string',
+        },
+        {
+          id: 'message' as PortId,
+          title: 'Message',
+          dataType: 'chat-message',
+        },
+        {
+          id: 'messages' as PortId,
+          title: 'All Messages',
+          dataType: 'chat-message[]',
+        },
+        {
+          id: 'tokenDetails' as PortId,
+          title: 'Token Details',
+          dataType: 'object',
+        },
+        {
+          id: 'function-calls' as PortId,
+          title: 'Function Calls',
+          dataType: 'object[]',
+          description: 'The function calls requested by the agent, with parsed arguments. Not run if the agent did not call a function.',
+        },
+        ...completionInfoOutputDefinitions,
+      ];
+    },
+
+    getEditors(): EditorDefinition<MistralAgentNode>[] {
+      return [
+        {
+          type: 'string',
+          label: 'Agent ID',
+          dataKey: 'agentId',
+          useInputToggleDataKey: 'useAgentIdInput',
+          placeholder: 'ag:...',
+          helperMessage: 'The id of an agent created in La Plateforme or through the Agents API.',
+        },
+        {
+          type: 'number',
+          label: 'Max Tokens',
+          dataKey: 'maxTokens',
+          useInputToggleDataKey: 'useMaxTokensInput',
+          min: 0,
+          step: 1,
+          allowEmpty: true,
+          helperMessage: 'Leave empty to use the agent\'s setting.',
+        },
+        {
+          type: 'toggle',
+          label: 'Use Messages Input',
+          dataKey: 'useMessagesInput',
+        },
+        {
+          type: 'toggle',
+          label: 'Stream Responses',
+          dataKey: 'useStream',
+        },
+        {
+          type: 'toggle',
+          label: 'Use Random Seed',
+          dataKey: 'useRandomSeed',
+        },
+        {
+          type: 'number',
+          label: 'Random Seed',
+          dataKey: 'randomSeed',
+          min: 0,
+          step: 1,
+        },
+        {
+          type: 'toggle',
+          label: 'Enable Tool Calling',
+          dataKey: 'enableToolCalling',
+          helperMessage: 'Adds a Tools input for functions from the graph. Tools configured on the agent are always available.',
+        },
+        {
+          type: 'dropdown',
+          label: 'Tool Choice',
+          dataKey: 'toolChoice',
+          options: [
+            { value: 'auto', label: 'Auto' },
+            { value: 'any', label: 'Any (force a tool call)' },
+            { value: 'none', label: 'None' },
+            { value: 'function', label: 'Specific Function' },
+          ],
+          defaultValue: 'auto',
+          hideIf: (data) => !data.enableToolCalling,
+        },
+        {
+          type: 'string',
+          label: 'Tool Choice Function',
+          dataKey: 'toolChoiceFunction',
+          hideIf: (data) => !data.enableToolCalling || data.toolChoice !== 'function',
+        },
+        {
+          type: 'toggle',
+          label: 'Parallel Tool Calls',
+          dataKey: 'parallelToolCalls',
+          hideIf: (data) => !data.enableToolCalling,
+        },
+        ...retryEditors<MistralAgentNode>(),
+        {
+          type: 'number',
+          label: 'Timeout (ms)',
+          dataKey: 'timeoutMs',
+          min: 0,
+          step: 1000,
+          allowEmpty: true,
+          helperMessage: 'Cancels the request if it takes longer than this, including streaming. A cancelled stream returns the text received so far. Leave empty for no limit.',
+        },
+        {
+          type: 'dropdown',
+          label: 'Currency',
+          dataKey: 'currency',
+          options: [
+            { value: 'USD', label: 'USD ($)' },
+            { value: 'EUR', label: 'EUR (€)' },
+          ],
+        },
+      ];
+    },
+
+    getUIData(): NodeUIData {
+      return {
+        contextMenuTitle: 'Mistral Agent',
+        group: 'AI/Chat (Mistral)',
+        infoBoxBody: `Runs a Mistral agent, whose model, instructions and tools are configured on Mistral's side. Has the same inputs and outputs as the Mistral Chat node.`,
+        infoBoxTitle: 'Mistral Agent Node',
+      };
+    },
+
+    getBody(data): string {
+      return `Agent: ${data.useAgentIdInput ? '(input)' : data.agentId || '(not set)'}
+Max Tokens: ${data.useMaxTokensInput ? '(input)' : data.maxTokens ?? 'Agent default'}`;
+    },
+
+    async process(data, inputs: Inputs, context: InternalProcessContext): Promise<Outputs> {
+      const agentId = (rivet.getInputOrData(data, inputs, 'agentId', 'string') ?? data.agentId).trim();
+      if (!agentId) {
+        throw new Error('No agent id provided. Set Agent ID, or connect it to the Agent ID input.');
+      }
+      const maxTokens = data.useMaxTokensInput
+        ? rivet.coerceTypeOptional(inputs['maxTokens' as PortId], 'number')
+        : data.maxTokens;
+
+      const messages = getMessages(rivet, data, inputs);
+
+      let tools: Tool[] | undefined;
+      let toolChoice: ToolChoice | undefined;
+      if (data.enableToolCalling) {
+        const toolsInput = inputs['tools' as PortId];
+        const gptFunctions = toolsInput?.type === 'gpt-function'
+          ? [toolsInput.value]
+          : rivet.coerceTypeOptional(toolsInput, 'gpt-function[]') ?? [];
+        tools = gptFunctions.map(convertGptFunctionToTool);
+
+        if (data.toolChoice === 'function') {
+          if (!data.toolChoiceFunction?.trim()) {
+            throw new Error('Tool choice is set to a specific function, but no function name was given.');
+          }
+          toolChoice = { type: 'function', function: { name: data.toolChoiceFunction.trim() } };
+        } else {
+          toolChoice = data.toolChoice ?? 'auto';
+        }
+      }
+
+      let retries = 0;
+      const timeout = withTimeout(context.signal, data.timeoutMs);
+      const requestOptions: AgentCompletionOptions = {
+        ...applyRetryOverrides(getMistralRequestOptions(context), data),
+        onRetry: () => retries++,
+        signal: timeout.signal,
+        agentId,
+        messages,
+        maxTokens,
+        random_seed: data.useRandomSeed ? data.randomSeed : undefined,
+        tools,
+        tool_choice: toolChoice,
+        parallel_tool_calls: data.enableToolCalling ? data.parallelToolCalls ?? true : undefined,
+      };
+
+      const output: Outputs = {};
+      // Always on, since functions configured on the agent itself can be called too
+      const includeFunctionCalls = true;
+
+      let completion: Omit<StreamedCompletion, 'responses'>;
+      try {
+        if (data.useStream) {
+          // A cancelled stream keeps whatever was generated so far
+          completion = await readCompletionStream(streamAgentCompletion(requestOptions), requestOptions.signal, (partial) => {
+            setResponseOutputs(output, messages, partial.content, partial.toolCalls, includeFunctionCalls, true);
+            context.onPartialOutputs?.(output);
+          });
+        } else {
+          const response = await createAgentCompletion(requestOptions);
+          completion = {
+            content: response.choices[0]?.message?.content ?? '',
+            toolCalls: response.choices[0]?.message?.tool_calls ?? [],
+            finishReason: response.choices[0]?.finish_reason ?? null,
+            id: response.id,
+            model: response.model,
+            usage: response.usage,
+            aborted: false,
+          };
+        }
+      } finally {
+        timeout.dispose();
+      }
+
+      const { content, aborted } = completion;
+      // The agent's model, which is what the request is billed for
+      const model = completion.model ?? '';
+      setResponseOutputs(output, messages, content, completion.toolCalls, includeFunctionCalls);
+      setCompletionInfoOutputs(output, completion, model);
+
+      let usage = completion.usage;
+      let note: string | undefined;
+      if (!usage) {
+        // The agent's instructions and tools aren't known here, so this undercounts the prompt
+        const tokenizer = await loadTokenizer(context, model);
+        const promptTokens = countMessageTokens(tokenizer, messages, tools);
+        const completionTokens = tokenizer.countTokens(content);
+        usage = {
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          total_tokens: promptTokens + completionTokens,
+        };
+        note = 'Token details estimated - the API did not report usage. The agent\'s own instructions and tools are not counted';
+      }
+
+      output['tokenDetails' as PortId] = {
+        type: 'object',
+        value: {
+          ...(note ? { note } : {}),
+          model,
+          prompt: usage.prompt_tokens,
+          completion: usage.completion_tokens,
+          total: usage.total_tokens,
+          estimatedCostCents: calculateCost(
+            model,
+            { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens },
+            data.currency,
+            getPriceOverrides(context),
+          ),
+          currency: data.currency,
+          attempts: retries + 1,
+          ...(aborted ? { finish_reason: 'aborted' } : {}),
+        },
+      };
+
+      return output;
+    },
+  };
+
+  return rivet.pluginNodeDefinition(nodeImpl, 'Mistral Agent');
+}
+
+function getMessages(rivet: typeof Rivet, data: MistralAgentNodeData, inputs: Inputs): MistralMessage[] {
+  if (data.useMessagesInput) {
+    const inputMessages = rivet.coerceTypeOptional(inputs['messages' as PortId], 'chat-message[]');
+    if (!inputMessages) {
+      throw new Error('No messages provided');
+    }
+    return convertToMistralMessages(inputMessages);
+  }
+
+  const promptInput = inputs['prompt' as PortId];
+  if (!promptInput) {
+    throw new Error('No prompt provided');
+  }
+
+  let userMessages: RivetChatMessage[];
+  if (promptInput.type === 'chat-message') {
+    userMessages = [promptInput.value];
+  } else if (promptInput.type === 'chat-message[]') {
+    userMessages = promptInput.value;
+  } else if (promptInput.type === 'string[]') {
+    userMessages = promptInput.value.map((value) => createUserMessage(value));
+  } else {
+    userMessages = [createUserMessage(rivet.coerceType(promptInput, 'string'))];
+  }
+  return convertToMistralMessages(userMessages);
+}
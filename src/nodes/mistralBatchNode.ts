@@ -0,0 +1,365 @@
+import type {
+  ChartNode,
+  DataValue,
+  EditorDefinition,
+  Inputs,
+  InternalProcessContext,
+  NodeId,
+  NodeInputDefinition,
+  NodeOutputDefinition,
+  NodeUIData,
+  Outputs,
+  PluginNodeImpl,
+  PortId,
+  Rivet,
+  ChatMessage as RivetChatMessage,
+} from '@ironclad/rivet-core';
+import { createBatchJob, uploadBatchRequests, waitForBatchJob, type BatchRequest } from '../impl/batchApi.js';
+import { withTimeout } from '../impl/mistralApi.js';
+import { getModel, getModelOptions, refreshModels, validateModel } from '../impl/modelRegistry.js';
+import {
+  applyRetryOverrides,
+  getMistralRequestOptions,
+  getPriceOverrides,
+  retryEditors,
+  type RetryOverrideData,
+} from '../impl/pluginConfig.js';
+import { convertToMistralMessages, createUserMessage, type MistralMessage } from '../mistral.js';
+import { batchResultOutputDefinitions, getBatchResultOutputs } from './mistralBatchResultsNode.js';
+
+export type MistralBatchNode = ChartNode<'mistralBatch', MistralBatchNodeData>;
+
+export type MistralBatchNodeData = RetryOverrideData & {
+  endpoint: '/v1/chat/completions' | '/v1/embeddings';
+  model: string;
+  useModelInput: boolean;
+  // Chat only; added to every prompt that doesn't have a system message of its own
+  systemPrompt: string;
+  // Chat only; unset means the model's default
+  temperature?: number;
+  maxTokens?: number;
+  useCustomIdsInput: boolean;
+  // Unset means Mistral's default of 24 hours
+  timeoutHours?: number;
+  // Wait for the job and output its results, rather than only submitting it
+  waitForResults: boolean;
+  pollIntervalSeconds: number;
+  currency: 'USD' | 'EUR';
+  // Limit for the whole node, including waiting for results; unset means no limit
+  timeoutMs?: number;
+};
+
+export default function (rivet: typeof Rivet) {
+  const nodeImpl: PluginNodeImpl<MistralBatchNode> = {
+    create(): MistralBatchNode {
+      return {
+        id: rivet.newId<NodeId>(),
+        type: 'mistralBatch',
+        title: 'Mistral Batch',
+        data: {
+          endpoint: '/v1/chat/completions',
+          model: 'mistral-small-latest',
+          useModelInput: false,
+          systemPrompt: '',
+          temperature: undefined,
+          maxTokens: undefined,
+          useCustomIdsInput: false,
+          timeoutHours: undefined,
+          waitForResults: true,
+          pollIntervalSeconds: 30,
+          currency: 'USD',
+          maxRetries: undefined,
+          retryBaseDelayMs: undefined,
+          timeoutMs: undefined,
+        },
+        visualData: {
+          x: 0,
+          y: 0,
+          width: 300,
+        },
+      };
+    },
+
+    getInputDefinitions(data): NodeInputDefinition[] {
+      const inputs: NodeInputDefinition[] = [];
+
+      if (data.useModelInput) {
+        inputs.push({
+          id: 'model' as PortId,
+          title: 'Model',
+          dataType: 'string',
+          required: false,
+        });
+      }
+
+      inputs.push({
+        id: 'prompts' as PortId,
+        title: 'Prompts',
+        dataType: ['string[]', 'any[]'],
+        required: true,
+        description: data.endpoint === '/v1/embeddings'
+          ? 'The texts to embed.'
+          : 'One request per item: a string, a chat message, or a list of chat messages (chat-message[][]).',
+      });
+
+      if (data.useCustomIdsInput) {
+        inputs.push({
+          id: 'customIds' as PortId,
+          title: 'Custom IDs',
+          dataType: 'string[]',
+          required: true,
+          description: 'A unique id for each prompt, returned with its result. Defaults to the prompt\'s index.',
+        });
+      }
+
+      return inputs;
+    },
+
+    getOutputDefinitions(data): NodeOutputDefinition[] {
+      return [
+        {
+          id: 'jobId' as PortId,
+          title: 'Job ID',
+          dataType: 'string',
+          description: 'Connect this to a Mistral Batch Status or Batch Results node to follow the job later.',
+        },
+        {
+          id: 'job' as PortId,
+          title: 'Job',
+          dataType: 'object',
+        },
+        ...(data.waitForResults ? batchResultOutputDefinitions : []),
+      ];
+    },
+
+    async getEditors(data, context): Promise<EditorDefinition<MistralBatchNode>[]> {
+      await refreshModels(context);
+
+      const isChat = (data: MistralBatchNodeData) => data.endpoint === '/v1/chat/completions';
+
+      return [
+        {
+          type: 'dropdown',
+          label: 'Endpoint',
+          dataKey: 'endpoint',
+          options: [
+            { value: '/v1/chat/completions', label: 'Chat completions' },
+            { value: '/v1/embeddings', label: 'Embeddings' },
+          ],
+        },
+        {
+          type: 'dropdown',
+          label: 'Model',
+          dataKey: 'model',
+          useInputToggleDataKey: 'useModelInput',
+          options: getModelOptions(
+            (model) => (isChat(data) ? model.capabilities.chat : model.capabilities.embedding),
+            data.model,
+          ),
+        },
+        {
+          type: 'code',
+          label: 'System Prompt',
+          dataKey: 'systemPrompt',
+          language: 'markdown',
+          hideIf: (data) => !isChat(data),
+        },
+        {
+          type: 'number',
+          label: 'Temperature',
+          dataKey: 'temperature',
+          min: 0,
+          max: 1.5,
+          step: 0.1,
+          allowEmpty: true,
+          hideIf: (data) => !isChat(data),
+        },
+        {
+          type: 'number',
+          label: 'Max Tokens',
+          dataKey: 'maxTokens',
+          min: 0,
+          step: 1,
+          allowEmpty: true,
+          hideIf: (data) => !isChat(data),
+        },
+        {
+          type: 'toggle',
+          label: 'Use Custom IDs Input',
+          dataKey: 'useCustomIdsInput',
+        },
+        {
+          type: 'number',
+          label: 'Job Timeout (hours)',
+          dataKey: 'timeoutHours',
+          min: 1,
+          step: 1,
+          allowEmpty: true,
+          helperMessage: 'Requests that have not run by then are not processed. Leave empty for 24 hours.',
+        },
+        {
+          type: 'toggle',
+          label: 'Wait for Results',
+          dataKey: 'waitForResults',
+          helperMessage: 'Waits for the job and outputs its results. Turn off to only submit the job, for jobs that take longer than the graph should run.',
+        },
+        {
+          type: 'number',
+          label: 'Poll Interval (seconds)',
+          dataKey: 'pollIntervalSeconds',
+          min: 1,
+          step: 1,
+          hideIf: (data) => !data.waitForResults,
+        },
+        {
+          type: 'dropdown',
+          label: 'Currency',
+          dataKey: 'currency',
+          options: [
+            { value: 'USD', label: 'USD ($)' },
+            { value: 'EUR', label: 'EUR (€)' },
+          ],
+        },
+        ...retryEditors<MistralBatchNode>(),
+        {
+          type: 'number',
+          label: 'Timeout (ms)',
+          dataKey: 'timeoutMs',
+          min: 0,
+          step: 1000,
+          allowEmpty: true,
+          helperMessage: 'Gives up if uploading, creating and waiting for the job take longer than this. The job itself keeps running and can be followed with a Mistral Batch Status node. Leave empty for no limit.',
+        },
+      ];
+    },
+
+    getUIData(): NodeUIData {
+      return {
+        contextMenuTitle: 'Mistral Batch',
+        group: 'AI/Batch (Mistral)',
+        infoBoxBody: `Runs many chat or embedding requests as a Mistral batch job, at half the usual price. Uploads the requests, submits the job and, optionally, waits for it and outputs the results in the order of the prompts.`,
+        infoBoxTitle: 'Mistral Batch Node',
+      };
+    },
+
+    getBody(data): string {
+      return `Model: ${data.useModelInput ? '(input)' : getModel(data.model)?.displayName ?? data.model}
+Endpoint: ${data.endpoint}
+${data.waitForResults ? `Waits for results, polling every ${data.pollIntervalSeconds}s` : 'Submits only'}`;
+    },
+
+    async process(data, inputs: Inputs, context: InternalProcessContext): Promise<Outputs> {
+      const model = rivet.getInputOrData(data, inputs, 'model', 'string') ?? data.model;
+      const isChat = data.endpoint === '/v1/chat/completions';
+
+      await refreshModels(context);
+      validateModel(model, { capabilities: [isChat ? 'chat' : 'embedding'], maxTokens: isChat ? data.maxTokens : undefined });
+
+      const promptsInput = inputs['prompts' as PortId];
+      if (!promptsInput) {
+        throw new Error('No prompts provided');
+      }
+      const prompts = getPromptValues(promptsInput);
+      if (!prompts.length) {
+        throw new Error('No prompts provided');
+      }
+
+      const customIds = data.useCustomIdsInput
+        ? rivet.coerceTypeOptional(inputs['customIds' as PortId], 'string[]') ?? []
+        : prompts.map((_, index) => String(index));
+      if (customIds.length !== prompts.length) {
+        throw new Error(`Got ${customIds.length} custom ids for ${prompts.length} prompts. Give exactly one id per prompt.`);
+      }
+
+      const requests: BatchRequest[] = prompts.map((prompt, index) => ({
+        custom_id: customIds[index]!,
+        body: isChat
+          ? {
+              messages: getChatMessages(prompt, data.systemPrompt, index),
+              temperature: data.temperature,
+              max_tokens: data.maxTokens,
+            }
+          : { input: getEmbeddingInput(prompt, index) },
+      }));
+
+      const timeout = withTimeout(context.signal, data.timeoutMs);
+      const options = { ...applyRetryOverrides(getMistralRequestOptions(context), data), signal: timeout.signal };
+
+      try {        const inputFile = await uploadBatchRequests(options, requests);
+        let job = await createBatchJob({
+          ...options,
+          inputFiles: [inputFile],
+          endpoint: data.endpoint,
+          model,
+          timeoutHours: data.timeoutHours,
+        });
+        context.trace(`Created Mistral batch job ${job.id} with ${requests.length} requests`);
+
+        const output: Outputs = {
+          ['jobId' as PortId]: {
+            type: 'string',
+            value: job.id,
+          },
+          ['job' as PortId]: {
+            type: 'object',
+            value: job,
+          },
+        };
+
+        if (!data.waitForResults) {
+          return output;
+        }
+
+        job = await waitForBatchJob(options, job.id, data.pollIntervalSeconds * 1000, (update) => {
+          output['job' as PortId] = { type: 'object', value: update };
+          context.onPartialOutputs?.(output);
+          context.trace(`Batch job ${update.id}: ${update.status}, ${update.completed_requests}/${update.total_requests} requests done`);
+        });
+
+        return {
+          ...output,
+          ...(await getBatchResultOutputs(options, job, data.currency, getPriceOverrides(context))),
+        };
+      } finally {
+        timeout.dispose();
+      }
+    },
+  };
+
+  return rivet.pluginNodeDefinition(nodeImpl, 'Mistral Batch');
+}
+
+function getPromptValues(input: DataValue): unknown[] {
+  if (!Array.isArray(input.value)) {
+    throw new Error(`Invalid prompts input: expected a list, got ${input.type}`);
+  }
+  return input.value;
+}
+
+const isChatMessage = (value: unknown): value is RivetChatMessage =>
+  !!value && typeof value === 'object' && 'type' in value && 'message' in value;
+
+function getChatMessages(prompt: unknown, systemPrompt: string, index: number): MistralMessage[] {
+  let messages: MistralMessage[];
+  if (typeof prompt === 'string') {
+    messages = convertToMistralMessages([createUserMessage(prompt)]);
+  } else if (isChatMessage(prompt)) {
+    messages = convertToMistralMessages([prompt]);
+  } else if (Array.isArray(prompt) && prompt.every(isChatMessage)) {
+    messages = convertToMistralMessages(prompt);
+  } else {
+    throw new Error(`Invalid prompt at index ${index}: expected a string, a chat message or a list of chat messages.`);
+  }
+
+  if (systemPrompt.trim() && !messages.some((message) => message.role === 'system')) {
+    messages.unshift({ role: 'system', content: systemPrompt });
+  }
+  return messages;
+}
+
+function getEmbeddingInput(prompt: unknown, index: number): string {
+  if (typeof prompt !== 'string') {
+    throw new Error(`Invalid input at index ${index}: embedding batches take strings.`);
+  }
+  return prompt;
+}
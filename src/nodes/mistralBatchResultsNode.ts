@@ -0,0 +1,225 @@
+import type {
+  ChartNode,
+  EditorDefinition,
+  Inputs,
+  InternalProcessContext,
+  NodeId,
+  NodeInputDefinition,
+  NodeOutputDefinition,
+  NodeUIData,
+  Outputs,
+  PluginNodeImpl,
+  PortId,
+  Rivet,
+} from '@ironclad/rivet-core';
+import { getBatchJob, getBatchResults, waitForBatchJob, type BatchJob } from '../impl/batchApi.js';
+import type { MistralRequestOptions } from '../impl/mistralApi.js';
+import { calculateBatchCost, type PriceOverrides } from '../impl/pricing.js';
+import {
+  applyRetryOverrides,
+  getMistralRequestOptions,
+  getPriceOverrides,
+  retryEditors,
+  type RetryOverrideData,
+} from '../impl/pluginConfig.js';
+
+export type MistralBatchResultsNode = ChartNode<'mistralBatchResults', MistralBatchResultsNodeData>;
+
+export type MistralBatchResultsNodeData = RetryOverrideData & {
+  jobId: string;
+  useJobIdInput: boolean;
+  // Wait for an unfinished job instead of failing
+  waitForCompletion: boolean;
+  pollIntervalSeconds: number;
+  currency: 'USD' | 'EUR';
+};
+
+// Shared with the batch node, which outputs the same results when it waits for its job
+export const batchResultOutputDefinitions: NodeOutputDefinition[] = [
+  {
+    id: 'responses' as PortId,
+    title: 'Responses',
+    dataType: 'string[]',
+    description: 'The text of each chat completion, in the order of the prompts. Empty for failed requests. Not run for other endpoints.',
+  },
+  {
+    id: 'embeddings' as PortId,
+    title: 'Embeddings',
+    dataType: 'vector[]',
+    description: 'The embedding of each input, in order. Empty for failed requests. Not run for other endpoints.',
+  },
+  {
+    id: 'results' as PortId,
+    title: 'Results',
+    dataType: 'object[]',
+    description: 'Each request\'s custom id, status code, response body and error, in the order of the prompts.',
+  },
+  {
+    id: 'usage' as PortId,
+    title: 'Usage',
+    dataType: 'object',
+    description: 'Requests, tokens and estimated cost at batch prices.',
+  },
+];
+
+/** Downloads a finished job's results and turns them into the batch result outputs. */
+export async function getBatchResultOutputs(
+  options: MistralRequestOptions,
+  job: BatchJob,
+  currency: 'USD' | 'EUR',
+  priceOverrides: PriceOverrides,
+): Promise<Outputs> {
+  const results = await getBatchResults(options, job);
+
+  let promptTokens = 0;
+  let completionTokens = 0;
+  for (const { body } of results) {
+    const usage = (body as { usage?: { prompt_tokens?: number; completion_tokens?: number } } | null)?.usage;
+    promptTokens += usage?.prompt_tokens ?? 0;
+    completionTokens += usage?.completion_tokens ?? 0;
+  }
+
+  const output: Outputs = {
+    ['results' as PortId]: {
+      type: 'object[]',
+      value: results,
+    },
+    ['responses' as PortId]: { type: 'control-flow-excluded', value: undefined },
+    ['embeddings' as PortId]: { type: 'control-flow-excluded', value: undefined },
+    ['usage' as PortId]: {
+      type: 'object',
+      value: {
+        model: job.model,
+        requests: results.length,
+        succeeded: results.filter((result) => !result.error).length,
+        failed: results.filter((result) => result.error).length,
+        prompt: promptTokens,
+        completion: completionTokens,
+        total: promptTokens + completionTokens,
+        estimatedCostCents: calculateBatchCost(job.model, { promptTokens, completionTokens }, currency, priceOverrides),
+        currency,
+      },
+    },
+  };
+
+  if (job.endpoint === '/v1/chat/completions' || job.endpoint === '/v1/fim/completions') {
+    output['responses' as PortId] = {
+      type: 'string[]',
+      value: results.map(({ body, error }) =>
+        error ? '' : (body as { choices?: { message?: { content?: string | null } }[] })?.choices?.[0]?.message?.content ?? ''),
+    };
+  } else if (job.endpoint === '/v1/embeddings') {
+    output['embeddings' as PortId] = {
+      type: 'vector[]',
+      value: results.map(({ body, error }) =>
+        error ? [] : (body as { data?: { embedding: number[] }[] })?.data?.[0]?.embedding ?? []),
+    };
+  }
+
+  return output;
+}
+
+export default function (rivet: typeof Rivet) {
+  const nodeImpl: PluginNodeImpl<MistralBatchResultsNode> = {
+    create(): MistralBatchResultsNode {
+      return {
+        id: rivet.newId<NodeId>(),
+        type: 'mistralBatchResults',
+        title: 'Mistral Batch Results',
+        data: {
+          jobId: '',
+          useJobIdInput: true,
+          waitForCompletion: true,
+          pollIntervalSeconds: 30,
+          currency: 'USD',
+          maxRetries: undefined,
+          retryBaseDelayMs: undefined,
+        },
+        visualData: {
+          x: 0,
+          y: 0,
+          width: 250,
+        },
+      };
+    },
+
+    getInputDefinitions(data): NodeInputDefinition[] {
+      return data.useJobIdInput
+        ? [{ id: 'jobId' as PortId, title: 'Job ID', dataType: 'string', required: true }]
+        : [];
+    },
+
+    getOutputDefinitions(): NodeOutputDefinition[] {
+      return batchResultOutputDefinitions;
+    },
+
+    getEditors(): EditorDefinition<MistralBatchResultsNode>[] {
+      return [
+        {
+          type: 'string',
+          label: 'Job ID',
+          dataKey: 'jobId',
+          useInputToggleDataKey: 'useJobIdInput',
+        },
+        {
+          type: 'toggle',
+          label: 'Wait for Completion',
+          dataKey: 'waitForCompletion',
+          helperMessage: 'Waits for a job that is still running. Otherwise, the node fails if the job has not finished.',
+        },
+        {
+          type: 'number',
+          label: 'Poll Interval (seconds)',
+          dataKey: 'pollIntervalSeconds',
+          min: 1,
+          step: 1,
+          hideIf: (data) => !data.waitForCompletion,
+        },
+        {
+          type: 'dropdown',
+          label: 'Currency',
+          dataKey: 'currency',
+          options: [
+            { value: 'USD', label: 'USD ($)' },
+            { value: 'EUR', label: 'EUR (€)' },
+          ],
+        },
+        ...retryEditors<MistralBatchResultsNode>(),
+      ];
+    },
+
+    getUIData(): NodeUIData {
+      return {
+        contextMenuTitle: 'Mistral Batch Results',
+        group: 'AI/Batch (Mistral)',
+        infoBoxBody: `Downloads the results of a Mistral batch job, in the order of the original requests.`,
+        infoBoxTitle: 'Mistral Batch Results Node',
+      };
+    },
+
+    getBody(data): string {
+      return `Job: ${data.useJobIdInput ? '(input)' : data.jobId || '(not set)'}${data.waitForCompletion ? `\nPolls every ${data.pollIntervalSeconds}s` : ''}`;
+    },
+
+    async process(data, inputs: Inputs, context: InternalProcessContext): Promise<Outputs> {
+      const jobId = (rivet.getInputOrData(data, inputs, 'jobId', 'string') ?? data.jobId).trim();
+      if (!jobId) {
+        throw new Error('No batch job id provided');
+      }
+
+      const options = applyRetryOverrides(getMistralRequestOptions(context), data);
+      const job = data.waitForCompletion
+        ? await waitForBatchJob(options, jobId, data.pollIntervalSeconds * 1000, (job) =>
+            context.trace(`Batch job ${job.id}: ${job.status}, ${job.completed_requests}/${job.total_requests} requests done`))
+        : await getBatchJob(options, jobId);
+
+      if (job.status === 'QUEUED' || job.status === 'RUNNING' || job.status === 'CANCELLATION_REQUESTED') {
+        throw new Error(`Batch job ${job.id} has not finished yet (${job.status}). Enable Wait for Completion, or check it with a Mistral Batch Status node first.`);
+      }
+
+      return getBatchResultOutputs(options, job, data.currency, getPriceOverrides(context));
+    },
+  };
+
+  return rivet.pluginNodeDefinition(nodeImpl, 'Mistral Batch Results');
+}
@@ -0,0 +1,156 @@
+import type {
+  ChartNode,
+  EditorDefinition,
+  Inputs,
+  InternalProcessContext,
+  NodeId,
+  NodeInputDefinition,
+  NodeOutputDefinition,
+  NodeUIData,
+  Outputs,
+  PluginNodeImpl,
+  PortId,
+  Rivet,
+} from '@ironclad/rivet-core';
+import { cancelBatchJob, getBatchJob, isBatchJobFinished } from '../impl/batchApi.js';
+import {
+  applyRetryOverrides,
+  getMistralRequestOptions,
+  retryEditors,
+  type RetryOverrideData,
+} from '../impl/pluginConfig.js';
+
+export type MistralBatchStatusNode = ChartNode<'mistralBatchStatus', MistralBatchStatusNodeData>;
+
+export type MistralBatchStatusNodeData = RetryOverrideData & {
+  jobId: string;
+  useJobIdInput: boolean;
+  // Requests cancellation instead of only checking the status
+  cancel: boolean;
+};
+
+export default function (rivet: typeof Rivet) {
+  const nodeImpl: PluginNodeImpl<MistralBatchStatusNode> = {
+    create(): MistralBatchStatusNode {
+      return {
+        id: rivet.newId<NodeId>(),
+        type: 'mistralBatchStatus',
+        title: 'Mistral Batch Status',
+        data: {
+          jobId: '',
+          useJobIdInput: true,
+          cancel: false,
+          maxRetries: undefined,
+          retryBaseDelayMs: undefined,
+        },
+        visualData: {
+          x: 0,
+          y: 0,
+          width: 250,
+        },
+      };
+    },
+
+    getInputDefinitions(data): NodeInputDefinition[] {
+      return data.useJobIdInput
+        ? [{ id: 'jobId' as PortId, title: 'Job ID', dataType: 'string', required: true }]
+        : [];
+    },
+
+    getOutputDefinitions(): NodeOutputDefinition[] {
+      return [
+        {
+          id: 'status' as PortId,
+          title: 'Status',
+          dataType: 'string',
+          description: 'QUEUED, RUNNING, SUCCESS, FAILED, TIMEOUT_EXCEEDED, CANCELLATION_REQUESTED or CANCELLED.',
+        },
+        {
+          id: 'finished' as PortId,
+          title: 'Finished',
+          dataType: 'boolean',
+          description: 'True once the job has stopped and its results can be fetched, whether or not it succeeded.',
+        },
+        {
+          id: 'progress' as PortId,
+          title: 'Progress',
+          dataType: 'object',
+          description: 'The total, completed, succeeded and failed request counts.',
+        },
+        {
+          id: 'job' as PortId,
+          title: 'Job',
+          dataType: 'object',
+          description: 'The full batch job, including its file ids and errors.',
+        },
+      ];
+    },
+
+    getEditors(): EditorDefinition<MistralBatchStatusNode>[] {
+      return [
+        {
+          type: 'string',
+          label: 'Job ID',
+          dataKey: 'jobId',
+          useInputToggleDataKey: 'useJobIdInput',
+        },
+        {
+          type: 'toggle',
+          label: 'Cancel Job',
+          dataKey: 'cancel',
+          helperMessage: 'Requests that the job be cancelled. Results of requests that already ran can still be fetched.',
+        },
+        ...retryEditors<MistralBatchStatusNode>(),
+      ];
+    },
+
+    getUIData(): NodeUIData {
+      return {
+        contextMenuTitle: 'Mistral Batch Status',
+        group: 'AI/Batch (Mistral)',
+        infoBoxBody: `Checks on a Mistral batch job, or cancels it.`,
+        infoBoxTitle: 'Mistral Batch Status Node',
+      };
+    },
+
+    getBody(data): string {
+      return `${data.cancel ? 'Cancel' : 'Job'}: ${data.useJobIdInput ? '(input)' : data.jobId || '(not set)'}`;
+    },
+
+    async process(data, inputs: Inputs, context: InternalProcessContext): Promise<Outputs> {
+      const jobId = (rivet.getInputOrData(data, inputs, 'jobId', 'string') ?? data.jobId).trim();
+      if (!jobId) {
+        throw new Error('No batch job id provided');
+      }
+
+      const options = applyRetryOverrides(getMistralRequestOptions(context), data);
+      const job = data.cancel ? await cancelBatchJob(options, jobId) : await getBatchJob(options, jobId);
+
+      return {
+        ['status' as PortId]: {
+          type: 'string',
+          value: job.status,
+        },
+        ['finished' as PortId]: {
+          type: 'boolean',
+          value: isBatchJobFinished(job),
+        },
+        ['progress' as PortId]: {
+          type: 'object',
+          value: {
+            total: job.total_requests,
+            completed: job.completed_requests,
+            succeeded: job.succeeded_requests,
+            failed: job.failed_requests,
+          },
+        },
+        ['job' as PortId]: {
+          type: 'object',
+          value: job,
+        },
+      };
+    },
+  };
+
+  return rivet.pluginNodeDefinition(nodeImpl, 'Mistral Batch Status');
+}
@@ -12,23 +12,63 @@ import type {
   PortId,
   Rivet,
   ChatMessage as RivetChatMessage,
+  DataValue,
 } from '@ironclad/rivet-core';
 import { match } from 'ts-pattern';
 import { 
-  mistralModels, 
-  mistralModelOptions, 
-  type MistralModels, 
   type MistralMessage,
-  convertToMistralMessage,
-  createAssistantMessage,
-  createSystemMessage,
+  convertToMistralMessages,
+  convertFromMistralMessage,
   createUserMessage,
+  convertGptFunctionToTool,
+  createImageChunk,
+  hasImageContent,
+  joinContinuation,
+  type ContentChunk,
+  type Tool,
+  type ToolCall,
+  type ToolChoice,
 } from '../mistral.js';
+import {
+  buildChatCompletionBody,
+  createChatCompletion,
+  streamChatCompletion,
+  type ChatCompletionOptions,
+  type MistralRequestOptions,
+  type ResponseFormat,
+  withTimeout,
+} from '../impl/mistralApi.js';
+import { formatJsonSchemaErrors, validateJsonSchema } from '../impl/jsonSchema.js';
+import { getModel, getModelOptions, refreshModels, validateModel } from '../impl/modelRegistry.js';
+import { calculateCost, formatPrice, getModelPrice } from '../impl/pricing.js';
+import { countMessageTokens, loadTokenizer } from '../impl/tokenizer.js';
+import {
+  dropOldestMessages,
+  keepFirstAndLastMessages,
+  summarizeOldestMessages,
+  type ContextFit,
+  type ContextOverflowStrategy,
+} from '../impl/contextWindow.js';
+import { getCacheKey, getResponseCache, type ResponseCacheBackend } from '../impl/responseCache.js';
+import {
+  completionInfoOutputDefinitions,
+  readCompletionStream,
+  setCompletionInfoOutputs,
+  setResponseOutputs,
+  type TokenUsage,
+} from '../impl/completionOutputs.js';
+import {
+  applyRetryOverrides,
+  getMistralRequestOptions,
+  getPriceOverrides,
+  retryEditors,
+  type RetryOverrideData,
+} from '../impl/pluginConfig.js';
 
 export type MistralChatNode = ChartNode<'mistralChat', MistralChatNodeData>;
 
-export type MistralChatNodeData = {
-  model: MistralModels;
+export type MistralChatNodeData = RetryOverrideData & {
+  model: string;
   useModelInput: boolean;
   temperature: number;
   useTemperatureInput: boolean;
@@ -43,9 +83,76 @@ export type MistralChatNodeData = {
   useSafePrompt: boolean;
   useRandomSeed?: boolean;
   randomSeed?: number;
+  stop?: string[];
+  useStopInput?: boolean;
+  // Unset means the API default
+  presencePenalty?: number;
+  usePresencePenaltyInput?: boolean;
+  frequencyPenalty?: number;
+  useFrequencyPenaltyInput?: boolean;
+  // Number of choices to generate
+  n?: number;
+  useNInput?: boolean;
+  // Predicted output, e.g. the text being edited
+  prediction?: string;
+  usePredictionInput?: boolean;
   currency: 'USD' | 'EUR'; // Add currency preference
+  enableToolCalling?: boolean;
+  toolChoice?: 'auto' | 'any' | 'none' | 'function';
+  toolChoiceFunction?: string;
+  parallelToolCalls?: boolean;
+  responseFormat?: 'text' | 'json_object' | 'json_schema';
+  jsonSchema?: string;
+  useJsonSchemaInput?: boolean;
+  jsonSchemaName?: string;
+  structuredOutputRetries?: number;
+  useImagesInput?: boolean;
+  // Limit for the whole request, including streaming; unset means no limit
+  timeoutMs?: number;
+  // What to do when the prompt and Max Tokens don't fit in the model's context
+  contextOverflow?: ContextOverflowStrategy;
+  // Used by the keepFirstLast strategy
+  keepFirstMessages?: number;
+  keepLastMessages?: number;
+  // Used by the summarize strategy; a cheaper model than the main one
+  summaryModel?: string;
+  // Reuse responses to identical requests instead of paying for them again
+  responseCache?: ResponseCacheBackend;
+  // Unset means cached responses never expire
+  responseCacheTtlMinutes?: number;
+  // Re-prompts with the reply so far while the model stops at Max Tokens
+  autoContinue?: boolean;
+  maxContinuations?: number;
 };
 
+// One request's reply. The finish reason is 'aborted' when the run was cancelled.
+type CompletionResult = {
+  content: string;
+  toolCalls: ToolCall[];
+  aborted: boolean;
+  finishReason: string | null;
+  id?: string;
+  model?: string;
+};
+
+// What is stored in the response cache for each request
+type CachedCompletion = {
+  content: string;
+  toolCalls: ToolCall[];
+  // Every choice, when more than one was requested
+  responses?: string[];
+  id?: string;
+  model?: string;
+  finishReason?: string | null;
+  usage: TokenUsage;
+};
+
+// All choices are only output when more than one may be generated
+const hasResponsesOutput = (data: MistralChatNodeData) => !!data.useNInput || (data.n ?? 1) > 1;
+
+// Strategies that can remove messages, and so have a Dropped Messages output
+const droppingStrategies: ContextOverflowStrategy[] = ['truncate', 'keepFirstLast', 'summarize'];
+
 export default function (rivet: typeof Rivet) {
   const nodeImpl: PluginNodeImpl<MistralChatNode> = {
     create(): MistralChatNode {
@@ -69,7 +176,38 @@ export default function (rivet: typeof Rivet) {
           useSafePrompt: false,
           useRandomSeed: false,
           randomSeed: undefined,
+          stop: [],
+          useStopInput: false,
+          presencePenalty: undefined,
+          usePresencePenaltyInput: false,
+          frequencyPenalty: undefined,
+          useFrequencyPenaltyInput: false,
+          n: 1,
+          useNInput: false,
+          prediction: '',
+          usePredictionInput: false,
           currency: 'USD', // Default to USD
+          enableToolCalling: false,
+          toolChoice: 'auto',
+          toolChoiceFunction: '',
+          parallelToolCalls: true,
+          responseFormat: 'text',
+          jsonSchema: '',
+          useJsonSchemaInput: false,
+          jsonSchemaName: 'response',
+          structuredOutputRetries: 0,
+          useImagesInput: false,
+          maxRetries: undefined,
+          retryBaseDelayMs: undefined,
+          timeoutMs: undefined,
+          contextOverflow: 'warn',
+          keepFirstMessages: 1,
+          keepLastMessages: 10,
+          summaryModel: 'ministral-8b-latest',
+          responseCache: 'off',
+          responseCacheTtlMinutes: undefined,
+          autoContinue: false,
+          maxContinuations: 3,
         },
         visualData: {
           x: 0,
@@ -124,6 +262,48 @@ export default function (rivet: typeof Rivet) {
         });
       }
 
+      if (data.useStopInput) {
+        inputs.push({
+          dataType: ['string[]', 'string'],
+          id: 'stop' as PortId,
+          title: 'Stop',
+          description: 'Sequences that end the response when generated.',
+        });
+      }
+
+      if (data.usePresencePenaltyInput) {
+        inputs.push({
+          dataType: 'number',
+          id: 'presencePenalty' as PortId,
+          title: 'Presence Penalty',
+        });
+      }
+
+      if (data.useFrequencyPenaltyInput) {
+        inputs.push({
+          dataType: 'number',
+          id: 'frequencyPenalty' as PortId,
+          title: 'Frequency Penalty',
+        });
+      }
+
+      if (data.useNInput) {
+        inputs.push({
+          dataType: 'number',
+          id: 'n' as PortId,
+          title: 'Number of Responses',
+        });
+      }
+
+      if (data.usePredictionInput) {
+        inputs.push({
+          dataType: 'string',
+          id: 'prediction' as PortId,
+          title: 'Prediction',
+          description: 'The expected response, e.g. the text being edited. Makes replies that mostly repeat it faster.',
+        });
+      }
+
       if (data.useMessagesInput) {
         inputs.push({
           dataType: 'chat-message[]',
@@ -138,11 +318,47 @@ export default function (rivet: typeof Rivet) {
         });
       }
 
+      if (data.useImagesInput) {
+        inputs.push({
+          dataType: ['image', 'image[]', 'string', 'string[]'],
+          id: 'images' as PortId,
+          title: 'Images',
+          description: 'Images to attach to the last user message, as image data or URLs. Requires a vision model.',
+        });
+      }
+
+      if (data.responseFormat === 'json_schema' && data.useJsonSchemaInput) {
+        inputs.push({
+          dataType: ['object', 'string'],
+          id: 'jsonSchema' as PortId,
+          title: 'JSON Schema',
+          description: 'The JSON schema the response must match, as an object or a JSON string.',
+        });
+      }
+
+      if (data.enableToolCalling) {
+        inputs.push({
+          dataType: ['gpt-function', 'gpt-function[]'],
+          id: 'tools' as PortId,
+          title: 'Tools',
+          description: 'The functions the model is allowed to call.',
+        });
+      }
+
+      if (data.responseCache && data.responseCache !== 'off') {
+        inputs.push({
+          dataType: 'boolean',
+          id: 'bypassCache' as PortId,
+          title: 'Bypass Cache',
+          description: 'When true, the request is sent even if a cached response exists, and the cache is updated with the new response.',
+        });
+      }
+
       return inputs;
     },
 
-    getOutputDefinitions(): NodeOutputDefinition[] {
-      return [
+    getOutputDefinitions(data): NodeOutputDefinition[] {
+      const outputs: NodeOutputDefinition[] = [
         {
           id: 'response' as PortId,
           title: 'Response',
@@ -163,17 +379,58 @@ export default function (rivet: typeof Rivet) {
           title: 'Token Details',
           dataType: 'object',
         },
+        ...completionInfoOutputDefinitions,
       ];
+
+      if (hasResponsesOutput(data)) {
+        outputs.push({
+          id: 'responses' as PortId,
+          title: 'Responses',
+          dataType: 'string[]',
+          description: 'The text of every generated choice. The other outputs are for the first one.',
+        });
+      }
+
+      if (data.responseFormat === 'json_object' || data.responseFormat === 'json_schema') {
+        outputs.push({
+          id: 'object' as PortId,
+          title: 'Object',
+          dataType: 'object',
+          description: 'The response parsed as JSON, validated against the schema in JSON schema mode.',
+        });
+      }
+
+      if (droppingStrategies.includes(data.contextOverflow ?? 'warn')) {
+        outputs.push({
+          id: 'droppedMessages' as PortId,
+          title: 'Dropped Messages',
+          dataType: 'chat-message[]',
+          description: 'The messages removed to fit the model\'s context, oldest first. Empty if the prompt fit.',
+        });
+      }
+
+      if (data.enableToolCalling) {
+        outputs.push({
+          id: 'function-calls' as PortId,
+          title: 'Function Calls',
+          dataType: 'object[]',
+          description: 'The function calls requested by the model, with parsed arguments. Not run if the model did not call a function.',
+        });
+      }
+
+      return outputs;
     },
 
-    getEditors(): EditorDefinition<MistralChatNode>[] {
+    async getEditors(data, context): Promise<EditorDefinition<MistralChatNode>[]> {
+      await refreshModels(context);
+
       return [
         {
           type: 'dropdown',
           label: 'Model',
           dataKey: 'model',
           useInputToggleDataKey: 'useModelInput',
-          options: mistralModelOptions,
+          options: getModelOptions((model) => model.capabilities.chat, data.model),
         },
         {
           type: 'string',
@@ -207,11 +464,76 @@ export default function (rivet: typeof Rivet) {
           min: 0,
           step: 1,
         },
+        {
+          type: 'stringList',
+          label: 'Stop',
+          dataKey: 'stop',
+          useInputToggleDataKey: 'useStopInput',
+          placeholder: 'Stop sequence',
+        },
+        {
+          type: 'number',
+          label: 'Presence Penalty',
+          dataKey: 'presencePenalty',
+          useInputToggleDataKey: 'usePresencePenaltyInput',
+          min: -2,
+          max: 2,
+          step: 0.1,
+          allowEmpty: true,
+          helperMessage: 'Positive values encourage the model to use words it has not used yet. Leave empty for the API default.',
+        },
+        {
+          type: 'number',
+          label: 'Frequency Penalty',
+          dataKey: 'frequencyPenalty',
+          useInputToggleDataKey: 'useFrequencyPenaltyInput',
+          min: -2,
+          max: 2,
+          step: 0.1,
+          allowEmpty: true,
+          helperMessage: 'Positive values discourage repeating words in proportion to how often they already appear. Leave empty for the API default.',
+        },
+        {
+          type: 'number',
+          label: 'Number of Responses',
+          dataKey: 'n',
+          useInputToggleDataKey: 'useNInput',
+          min: 1,
+          step: 1,
+          helperMessage: 'Generates several choices, output as Responses. Each one is billed for its completion tokens.',
+        },
+        {
+          type: 'code',
+          label: 'Prediction',
+          dataKey: 'prediction',
+          useInputToggleDataKey: 'usePredictionInput',
+          language: 'plaintext',
+          helperMessage: 'The expected response, e.g. the code being edited. Replies that mostly repeat it are generated faster.',
+        },
+        {
+          type: 'toggle',
+          label: 'Auto-continue on Length',
+          dataKey: 'autoContinue',
+          helperMessage: 'When the reply is cut off at Max Tokens, asks the model to continue it, up to Max Continuations times. Only for a single response without tool calls.',
+        },
+        {
+          type: 'number',
+          label: 'Max Continuations',
+          dataKey: 'maxContinuations',
+          min: 1,
+          step: 1,
+          hideIf: (data) => !data.autoContinue,
+        },
         {
           type: 'toggle',
           label: 'Use Messages Input',
           dataKey: 'useMessagesInput',
         },
+        {
+          type: 'toggle',
+          label: 'Use Images Input',
+          dataKey: 'useImagesInput',
+        },
         {
           type: 'toggle',
           label: 'Stream Responses',
@@ -234,6 +556,78 @@ export default function (rivet: typeof Rivet) {
           min: 0,
           step: 1,
         },
+        ...retryEditors<MistralChatNode>(),
+        {
+          type: 'number',
+          label: 'Timeout (ms)',
+          dataKey: 'timeoutMs',
+          min: 0,
+          step: 1000,
+          allowEmpty: true,
+          helperMessage: 'Cancels the request if it takes longer than this, including streaming. A cancelled stream returns the text received so far. Leave empty for no limit.',
+        },
+        {
+          type: 'dropdown',
+          label: 'Context Overflow',
+          dataKey: 'contextOverflow',
+          options: [
+            { value: 'warn', label: 'Warn and send anyway' },
+            { value: 'fail', label: 'Fail' },
+            { value: 'truncate', label: 'Drop oldest messages' },
+            { value: 'keepFirstLast', label: 'Keep first and last messages' },
+            { value: 'summarize', label: 'Summarize older messages' },
+          ],
+          helperMessage: 'What to do when the prompt leaves less than Max Tokens of the model\'s context. System messages are always kept. No tokenizer files are bundled: counts are exact only when a tokenizer file is configured in the plugin settings, and estimated otherwise, so leave some headroom.',
+        },
+        ...(data.contextOverflow === 'keepFirstLast' ? [
+          {
+            type: 'number' as const,
+            label: 'Keep First Messages',
+            dataKey: 'keepFirstMessages' as const,
+            min: 0,
+            step: 1,
+            helperMessage: 'Messages to keep from the start of the conversation, not counting system messages.',
+          },
+          {
+            type: 'number' as const,
+            label: 'Keep Last Messages',
+            dataKey: 'keepLastMessages' as const,
+            min: 1,
+            step: 1,
+            helperMessage: 'Messages to keep from the end of the conversation.',
+          },
+        ] : []),
+        ...(data.contextOverflow === 'summarize' ? [
+          {
+            type: 'dropdown' as const,
+            label: 'Summary Model',
+            dataKey: 'summaryModel' as const,
+            options: getModelOptions((model) => model.capabilities.chat, data.summaryModel),
+            helperMessage: 'The model that summarizes the dropped messages. Its cost is included in the token details.',
+          },
+        ] : []),
+        {
+          type: 'dropdown',
+          label: 'Response Cache',
+          dataKey: 'responseCache',
+          options: [
+            { value: 'off', label: 'Off' },
+            { value: 'memory', label: 'Memory' },
+            { value: 'file', label: 'File (plugin cache directory)' },
+          ],
+          helperMessage: 'Reuses the response to an identical request (model, messages, sampling settings, seed and tools) at no cost. Best with temperature 0 or a fixed random seed.',
+        },
+        ...(data.responseCache && data.responseCache !== 'off' ? [
+          {
+            type: 'number' as const,
+            label: 'Cache TTL (minutes)',
+            dataKey: 'responseCacheTtlMinutes' as const,
+            min: 0,
+            step: 1,
+            allowEmpty: true,
+            helperMessage: 'How long a cached response is reused. Leave empty to keep it forever.',
+          },
+        ] : []),
         {
           type: 'dropdown',
           label: 'Currency',
@@ -243,6 +637,70 @@ export default function (rivet: typeof Rivet) {
             { value: 'EUR', label: 'EUR (€)' },
           ],
         },
+        {
+          type: 'dropdown',
+          label: 'Response Format',
+          dataKey: 'responseFormat',
+          options: [
+            { value: 'text', label: 'Text' },
+            { value: 'json_object', label: 'JSON Object' },
+            { value: 'json_schema', label: 'JSON Schema' },
+          ],
+          defaultValue: 'text',
+        },
+        {
+          type: 'string',
+          label: 'Schema Name',
+          dataKey: 'jsonSchemaName',
+          hideIf: (data) => data.responseFormat !== 'json_schema',
+        },
+        {
+          type: 'code',
+          label: 'JSON Schema',
+          dataKey: 'jsonSchema',
+          useInputToggleDataKey: 'useJsonSchemaInput',
+          language: 'json',
+          hideIf: (data) => data.responseFormat !== 'json_schema',
+        },
+        {
+          type: 'number',
+          label: 'Retries on Invalid JSON',
+          dataKey: 'structuredOutputRetries',
+          min: 0,
+          step: 1,
+          helperMessage: 'How many times to ask the model to correct a response that is not valid JSON or does not match the schema.',
+          hideIf: (data) => !data.responseFormat || data.responseFormat === 'text',
+        },
+        {
+          type: 'toggle',
+          label: 'Enable Tool Calling',
+          dataKey: 'enableToolCalling',
+        },
+        {
+          type: 'dropdown',
+          label: 'Tool Choice',
+          dataKey: 'toolChoice',
+          options: [
+            { value: 'auto', label: 'Auto' },
+            { value: 'any', label: 'Any (force a tool call)' },
+            { value: 'none', label: 'None' },
+            { value: 'function', label: 'Specific Function' },
+          ],
+          defaultValue: 'auto',
+          hideIf: (data) => !data.enableToolCalling,
+        },
+        {
+          type: 'string',
+          label: 'Tool Choice Function',
+          dataKey: 'toolChoiceFunction',
+          hideIf: (data) => !data.enableToolCalling || data.toolChoice !== 'function',
+        },
+        {
+          type: 'toggle',
+          label: 'Parallel Tool Calls',
+          dataKey: 'parallelToolCalls',
+          hideIf: (data) => !data.enableToolCalling,
+        },
       ];
     },
 
@@ -256,19 +714,13 @@ export default function (rivet: typeof Rivet) {
     },
 
     getBody(data): string {
-      const modelInfo = mistralModels[data.model] || { 
-        displayName: data.model, 
-        cost: { 
-          prompt: { USD: "-", EUR: "-" }, 
-          completion: { USD: "-", EUR: "-" } 
-        } 
-      };
+      const price = getModelPrice(data.model, data.currency);
       
       // Get pricing for the selected currency
-      const promptPrice = modelInfo.cost.prompt[data.currency];
-      const completionPrice = modelInfo.cost.completion[data.currency];
+      const promptPrice = formatPrice(price.input, data.currency);
+      const completionPrice = formatPrice(price.output, data.currency);
       
-      return `Model: ${modelInfo.displayName}
+      return `Model: ${getModel(data.model)?.displayName ?? data.model}
 Temperature: ${data.temperature}
 Max Tokens: ${data.maxTokens}
 Top P: ${data.topP}
@@ -277,19 +729,30 @@ ${completionPrice}/1M completion tokens`;
     },
 
     async process(data, inputs: Inputs, context: InternalProcessContext): Promise<Outputs> {
+      const timeout = withTimeout(context.signal, data.timeoutMs);
       try {
         console.log("Starting Mistral Chat node processing...");
         
-        const apiKey = context.getPluginConfig('mistralApiKey');
-        if (!apiKey) {
-          throw new Error('Mistral API key not configured. Please add your API key in the plugin configuration.');
-        }
+        let retries = 0;
+        const mistralOptions: MistralRequestOptions = {
+          ...applyRetryOverrides(getMistralRequestOptions(context), data),
+          onRetry: () => retries++,
+          signal: timeout.signal,
+        };
+        const priceOverrides = getPriceOverrides(context);
 
         const model = rivet.getInputOrData(data, inputs, 'model', 'string') ?? data.model;
+        // Validation below uses the live model list when it can be fetched
+        await refreshModels(context);
         const temperature = rivet.getInputOrData(data, inputs, 'temperature', 'number') ?? data.temperature;
         const maxTokens = rivet.getInputOrData(data, inputs, 'maxTokens', 'number') ?? data.maxTokens;
         const topP = rivet.getInputOrData(data, inputs, 'topP', 'number') ?? data.topP;
         const systemPrompt = rivet.getInputOrData(data, inputs, 'systemPrompt', 'string') ?? data.systemPrompt;
+        const stop = rivet.getInputOrData(data, inputs, 'stop', 'string[]') ?? data.stop;
+        const presencePenalty = rivet.getInputOrData(data, inputs, 'presencePenalty', 'number') ?? data.presencePenalty;
+        const frequencyPenalty = rivet.getInputOrData(data, inputs, 'frequencyPenalty', 'number') ?? data.frequencyPenalty;
+        const n = rivet.getInputOrData(data, inputs, 'n', 'number') ?? data.n;
+        const prediction = rivet.getInputOrData(data, inputs, 'prediction', 'string') ?? data.prediction;
         
         let messages: MistralMessage[] = [];
 
@@ -306,10 +769,7 @@ ${completionPrice}/1M completion tokens`;
             throw new Error('Invalid messages input format');
           }
 
-          messages.push(...inputMessages.map(msg => ({
-            role: msg.type as 'system' | 'user' | 'assistant',
-            content: typeof msg.message === 'string' ? msg.message : msg.message.toString(),
-          })));
+          messages.push(...convertToMistralMessages(inputMessages));
         } else {
           const promptInput = inputs['prompt' as PortId];
           if (!promptInput) {
@@ -330,338 +790,557 @@ ${completionPrice}/1M completion tokens`;
             throw new Error(`Invalid prompt format: ${promptInput.type}`);
           }
 
-          messages.push(...userMessages.map(convertToMistralMessage));
+          messages.push(...convertToMistralMessages(userMessages));
+        }
+
+        if (data.useImagesInput) {
+          attachImages(messages, getImageChunks(inputs['images' as PortId]));
+        }
+
+        let tools: Tool[] | undefined;
+        let toolChoice: ToolChoice | undefined;
+        if (data.enableToolCalling) {
+          const toolsInput = inputs['tools' as PortId];
+          const gptFunctions = toolsInput?.type === 'gpt-function'
+            ? [toolsInput.value]
+            : rivet.coerceTypeOptional(toolsInput, 'gpt-function[]') ?? [];
+          tools = gptFunctions.map(convertGptFunctionToTool);
+
+          if (!tools.length && (data.toolChoice === 'any' || data.toolChoice === 'function')) {
+            throw new Error(`Tool choice "${data.toolChoice}" requires at least one tool. Connect functions to the Tools input, or set Tool Choice to auto.`);
+          }
+
+          if (data.toolChoice === 'function') {
+            if (!data.toolChoiceFunction?.trim()) {
+              throw new Error('Tool choice is set to a specific function, but no function name was given.');
+            }
+            toolChoice = { type: 'function', function: { name: data.toolChoiceFunction.trim() } };
+          } else {
+            toolChoice = data.toolChoice ?? 'auto';
+          }
+        }
+
+        let responseFormat: ResponseFormat | undefined;
+        let jsonSchema: object | undefined;
+        if (data.responseFormat === 'json_object') {
+          responseFormat = { type: 'json_object' };
+        } else if (data.responseFormat === 'json_schema') {
+          jsonSchema = data.useJsonSchemaInput
+            ? parseJsonSchema(inputs['jsonSchema' as PortId]?.value)
+            : parseJsonSchema(data.jsonSchema);
+          responseFormat = {
+            type: 'json_schema',
+            json_schema: {
+              name: data.jsonSchemaName?.trim() || 'response',
+              schema: jsonSchema,
+              strict: true,
+            },
+          };
         }
 
-        const requestBody = {
+        // Catch models and settings that can't work before paying for a request
+        validateModel(model, {
+          capabilities: [
+            'chat',
+            ...(hasImageContent(messages) ? ['vision' as const] : []),
+            ...(tools?.length ? ['tools' as const] : []),
+            // JSON mode works on any chat model; only schemas need structured output support
+            ...(data.responseFormat === 'json_schema' ? ['json_schema' as const] : []),
+          ],
+          maxTokens,
+        });
+
+        // Count the prompt locally, so a conversation that won't fit is caught before it is sent
+        const tokenizer = await loadTokenizer(context, model);
+        const contextLength = getModel(model)?.contextLength ?? 0;
+        const contextOverflow = data.contextOverflow ?? 'warn';
+        let droppedMessages: MistralMessage[] = [];
+        let summaryCostCents = 0;
+
+        // Applies the Context Overflow strategy if the messages and Max Tokens don't fit in the
+        // model's context. Runs before the first request and again before each continuation.
+        const fitContext = async (conversation: MistralMessage[]): Promise<MistralMessage[]> => {
+          const promptTokens = countMessageTokens(tokenizer, conversation, tools);
+          if (contextLength <= 0 || promptTokens + maxTokens <= contextLength) {
+            return conversation;
+          }
+
+          const budget = contextLength - maxTokens;
+          let fit: ContextFit | undefined;
+          switch (contextOverflow) {
+            case 'fail':
+              throw new Error(`The prompt is about ${promptTokens} tokens, which leaves less than Max Tokens (${maxTokens}) of the ${contextLength}-token context of ${model}. Shorten the conversation, lower Max Tokens, or choose another Context Overflow strategy.`);
+            case 'truncate':
+              fit = dropOldestMessages(tokenizer, conversation, tools, budget);
+              break;
+            case 'keepFirstLast':
+              fit = keepFirstAndLastMessages(tokenizer, conversation, tools, budget, data.keepFirstMessages ?? 1, data.keepLastMessages ?? 10);
+              break;
+            case 'summarize': {
+              const summaryModel = data.summaryModel || 'ministral-8b-latest';
+              fit = await summarizeOldestMessages(tokenizer, conversation, tools, budget, async (transcript, summaryMaxTokens) => {
+                const summary = await createChatCompletion({
+                  ...mistralOptions,
+                  model: summaryModel,
+                  messages: [
+                    {
+                      role: 'system',
+                      content: 'Summarize the following conversation, which may start with a summary of what came before it, so that it can be continued without it. Keep names, facts, decisions, open questions and the results of tool calls. Reply with only the summary.',
+                    },
+                    { role: 'user', content: transcript },
+                  ],
+                  temperature: 0,
+                  maxTokens: summaryMaxTokens,
+                });
+                summaryCostCents += calculateCost(summaryModel, {
+                  promptTokens: summary.usage.prompt_tokens,
+                  completionTokens: summary.usage.completion_tokens,
+                }, data.currency, priceOverrides);
+                return summary.choices[0]?.message?.content ?? '';
+              }, getModel(summaryModel)?.contextLength);
+              break;
+            }
+            default: {
+              const warning = `The prompt is about ${promptTokens} tokens, which leaves less than Max Tokens (${maxTokens}) of the ${contextLength}-token context of ${model}. The reply may be cut short, or the request rejected.`;
+              console.warn(warning);
+              context.trace(warning);
+            }
+          }
+
+          if (!fit) {
+            return conversation;
+          }
+          console.warn(`Dropped ${fit.dropped.length} message(s) to fit the ${contextLength}-token context of ${model}`);
+          droppedMessages = [...droppedMessages, ...fit.dropped];
+          return fit.messages;
+        };
+        messages = await fitContext(messages);
+
+        const requestOptions: ChatCompletionOptions = {
+          ...mistralOptions,
           model,
           messages,
           temperature,
-          max_tokens: maxTokens,
-          top_p: topP,
-          stream: data.useStream,
+          maxTokens,
+          topP,
           safe_prompt: data.useSafePrompt,
           random_seed: data.useRandomSeed ? data.randomSeed : undefined,
+          tools,
+          tool_choice: toolChoice,
+          parallel_tool_calls: data.enableToolCalling ? data.parallelToolCalls ?? true : undefined,
+          response_format: responseFormat,
+          stop: stop?.filter((sequence) => sequence !== ''),
+          presence_penalty: presencePenalty,
+          frequency_penalty: frequencyPenalty,
+          // 1 is the API default, so it is left out for gateways that don't support n
+          n: n && n > 1 ? n : undefined,
+          prediction: prediction ? { type: 'content', content: prediction } : undefined,
         };
 
-        const response = await fetch('https://api.mistral.ai/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${apiKey}`,
-          },
-          body: JSON.stringify(requestBody),
-        });
+        const output: Outputs = {};
 
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error("Mistral API error:", response.status, errorText);
-          throw new Error(`Mistral API error: ${response.status} - ${errorText}`);
-        }
+        const responseCache = getResponseCache(context, data.responseCache);
+        const cacheTtlMs = data.responseCacheTtlMinutes ? data.responseCacheTtlMinutes * 60 * 1000 : undefined;
+        const bypassCache = rivet.coerceTypeOptional(inputs['bypassCache' as PortId], 'boolean') ?? false;
 
-        const output: Outputs = {};
+        if (droppingStrategies.includes(contextOverflow)) {
+          output['droppedMessages' as PortId] = {
+            type: 'chat-message[]',
+            value: droppedMessages.map(convertFromMistralMessage),
+          };
+        }
 
-        if (data.useStream) {
-          const reader = response.body?.getReader();
-          const decoder = new TextDecoder();
-          let buffer = '';
-          const responseParts: string[] = [];
-          
-          // Store all raw JSON chunks for analysis
-          const allChunks: string[] = [];
-          // Track if we've found token usage information
-          let tokenUsageFound = false;
-          let tokenUsage = {
-            prompt_tokens: 0,
-            completion_tokens: 0,
-            total_tokens: 0
+        // Runs one request, streaming or not, and fills in the response outputs. A prefix is the
+        // reply being continued, which the content is added to.
+        const runCompletion = async (requestOptions: ChatCompletionOptions, prefix = ''): Promise<CompletionResult> => {
+          const withPrefix = (text: string) => joinContinuation(prefix, text);
+          const setResponses = (responses: string[]) => {
+            if (hasResponsesOutput(data)) {
+              output['responses' as PortId] = { type: 'string[]', value: responses };
+            }
           };
 
-          if (!reader) {
-            throw new Error('No response body');
-          }
+          // Streaming doesn't change the response, so both modes share cache entries
+          const cacheKey = responseCache
+            ? await getCacheKey({ baseUrl: requestOptions.baseUrl, ...buildChatCompletionBody({ ...requestOptions, stream: false }) })
+            : '';
 
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-
-            buffer += decoder.decode(value, { stream: true });
-            const lines = buffer.split('\n');
-            buffer = lines.pop() || '';
-
-            for (const line of lines) {
-              if (line.trim() === '') continue;
-              if (line.startsWith('data: ')) {
-                const dataContent = line.slice(6);
-                if (dataContent === '[DONE]') continue;
-                
-                // Store the raw chunk for later analysis
-                allChunks.push(dataContent);
-                
-                try {
-                  const jsonData = JSON.parse(dataContent);
-                  
-                  // Check if this chunk contains token usage information
-                  if (jsonData.usage && jsonData.usage.total_tokens) {
-                    console.log("Found token usage in streaming response:", jsonData.usage);
-                    tokenUsageFound = true;
-                    tokenUsage = jsonData.usage;
-                  }
-                  
-                  const content = jsonData.choices[0]?.delta?.content;
-                  if (content) {
-                    responseParts.push(content);
-                    
-                    const currentResponse = responseParts.join('');
-                    const assistantMessage = createAssistantMessage(currentResponse);
-
-                    output['response' as PortId] = {
-                      type: 'string',
-                      value: currentResponse,
-                    };
-
-                    output['message' as PortId] = {
-                      type: 'chat-message',
-                      value: assistantMessage,
-                    };
-
-                    output['messages' as PortId] = {
-                      type: 'chat-message[]',
-                      value: [
-                        ...messages.map(m => {
-                          if (m.role === 'system') return createSystemMessage(m.content);
-                          if (m.role === 'user') return createUserMessage(m.content);
-                          return createAssistantMessage(m.content);
-                        }),
-                        assistantMessage,
-                      ],
-                    };
-
-                    // If we've found token usage, include it in the partial outputs
-                    if (tokenUsageFound) {
-                      // Calculate approximate cost
-                      const modelInfo = mistralModels[model as MistralModels] || { 
-                        cost: { 
-                          prompt: { USD: "$0", EUR: "0 €" }, 
-                          completion: { USD: "$0", EUR: "0 €" } 
-                        } 
-                      };
-
-                      // Get the price for the selected currency
-                      const promptPriceStr = modelInfo.cost.prompt[data.currency];
-                      const completionPriceStr = modelInfo.cost.completion[data.currency];
-
-                      // Parse the cost values (removing currency symbols and converting to number)
-                      const promptCostPerMillion = parseFloat(promptPriceStr.replace(/[^0-9.]/g, ''));
-                      const completionCostPerMillion = completionPriceStr === '-' ? 0 : parseFloat(completionPriceStr.replace(/[^0-9.]/g, ''));
-
-                      // Calculate cost
-                      const promptCost = (tokenUsage.prompt_tokens / 1000000) * promptCostPerMillion;
-                      const completionCost = (tokenUsage.completion_tokens / 1000000) * completionCostPerMillion;
-                      const totalCostDollars = promptCost + completionCost;
-                      
-                      // Convert to cents and round to 4 decimal places
-                      const totalCostCents = Number((totalCostDollars * 100).toFixed(4));
-
-                      output['tokenDetails' as PortId] = {
-                        type: 'object',
-                        value: {
-                          prompt: tokenUsage.prompt_tokens,
-                          completion: tokenUsage.completion_tokens,
-                          total: tokenUsage.total_tokens,
-                          estimatedCostCents: totalCostCents,
-                          currency: data.currency
-                        }
-                      };
-                    }
-
-                    context.onPartialOutputs?.(output);
-                  }
-                } catch (e) {
-                  console.error('Error parsing JSON from stream:', e);
+          if (responseCache && !bypassCache) {
+            const cached = await responseCache.get<CachedCompletion>(cacheKey, cacheTtlMs);
+            if (cached) {
+              console.log("Using cached Mistral response");
+              setResponseOutputs(output, messages, withPrefix(cached.content), cached.toolCalls, !!data.enableToolCalling);
+              setResponses(cached.responses ?? [cached.content]);
+              output['tokenDetails' as PortId] = {
+                type: 'object',
+                value: {
+                  prompt: cached.usage.prompt_tokens,
+                  completion: cached.usage.completion_tokens,
+                  total: cached.usage.total_tokens,
+                  estimatedCostCents: 0,
+                  currency: data.currency,
+                  attempts: 0,
+                  cached: true
                 }
-              }
+              };
+              return {
+                content: withPrefix(cached.content),
+                toolCalls: cached.toolCalls,
+                aborted: false,
+                finishReason: cached.finishReason ?? null,
+                id: cached.id,
+                model: cached.model,
+              };
             }
           }
 
-          // After stream is complete, try to find token usage in the collected chunks
-          if (!tokenUsageFound) {
-            console.log("Analyzing all chunks for token usage information...");
-            
-            // Log all chunks for debugging
-            console.log("All received chunks:", allChunks);
-            
-            // Try to find a chunk with usage information
-            for (const chunk of allChunks) {
-              try {
-                const json = JSON.parse(chunk);
-                if (json.usage && json.usage.total_tokens) {
-                  console.log("Found token usage in chunk analysis:", json.usage);
-                  tokenUsage = json.usage;
-                  tokenUsageFound = true;
-                  break;
-                }
-              } catch (e) {
-                // Skip chunks that can't be parsed
-                continue;
+          if (data.useStream) {
+            const getTokenDetails = (usage: TokenUsage) => ({
+              prompt: usage.prompt_tokens,
+              completion: usage.completion_tokens,
+              total: usage.total_tokens,
+              estimatedCostCents: calculateCost(model, {
+                promptTokens: usage.prompt_tokens,
+                completionTokens: usage.completion_tokens,
+              }, data.currency, priceOverrides),
+              currency: data.currency,
+              attempts: retries + 1
+            });
+
+            // A cancelled run keeps whatever was streamed so far
+            const completion = await readCompletionStream(streamChatCompletion(requestOptions), requestOptions.signal, (partial) => {
+              setResponseOutputs(output, messages, withPrefix(partial.content), partial.toolCalls, !!data.enableToolCalling, true);
+              setResponses(partial.responses);
+
+              // If we've found token usage, include it in the partial outputs
+              if (partial.usage) {
+                output['tokenDetails' as PortId] = {
+                  type: 'object',
+                  value: getTokenDetails(partial.usage)
+                };
               }
+
+              context.onPartialOutputs?.(output);
+            });
+            const { toolCalls, aborted } = completion;
+            if (aborted) {
+              console.log("Mistral stream aborted, returning the partial response");
+            }
+
+            // Make sure the final outputs are set even if the model returned no content
+            setResponseOutputs(output, messages, withPrefix(completion.content), toolCalls, !!data.enableToolCalling);
+            setResponses(completion.responses);
+
+            let tokenUsage = completion.usage;
+            if (tokenUsage) {
+              output['tokenDetails' as PortId] = {
+                type: 'object',
+                value: getTokenDetails(tokenUsage)
+              };
+            } else {
+              // If we don't have token usage, count both sides with the model's tokenizer instead
+              console.log("Token usage not found in streaming response, counting tokens locally");
+              const promptTokens = countMessageTokens(tokenizer, requestOptions.messages, requestOptions.tools);
+              const completionTokens = completion.responses.reduce((tokens, response) => tokens + tokenizer.countTokens(response), 0)
+                + (toolCalls.length ? 1 + tokenizer.countTokens(JSON.stringify(toolCalls.map((call) => call.function))) : 0);
+              tokenUsage = {
+                prompt_tokens: promptTokens,
+                completion_tokens: completionTokens,
+                total_tokens: promptTokens + completionTokens
+              };
+
+              output['tokenDetails' as PortId] = {
+                type: 'object',
+                value: {
+                  note: tokenizer.exact
+                    ? "Token details counted locally - the API did not report usage"
+                    : "Token details estimated - the API did not report usage. Configure a tokenizer file for exact counts",
+                  ...getTokenDetails(tokenUsage)
+                }
+              };
+            }
+
+            if (aborted) {
+              output['tokenDetails' as PortId] = {
+                type: 'object',
+                value: {
+                  ...(output['tokenDetails' as PortId]!.value as object),
+                  finish_reason: 'aborted'
+                }
+              };
+            }
+
+            // A partial response must not be reused
+            if (responseCache && !aborted) {
+              await responseCache.set<CachedCompletion>(cacheKey, {
+                content: completion.content,
+                toolCalls,
+                responses: completion.responses,
+                id: completion.id,
+                model: completion.model,
+                finishReason: completion.finishReason,
+                usage: tokenUsage,
+              });
             }
-          }
 
-          // If we still don't have token usage, make a fallback calculation
-          if (!tokenUsageFound) {
-            console.log("Token usage not found in streaming response, using estimates");
-            
-            // Estimate completion tokens based on response length
-            // This is a very rough estimate and should be replaced with a better method
-            const fullResponse = responseParts.join('');
-            const estimatedCompletionTokens = Math.ceil(fullResponse.length / 4); // Very rough estimate
-            
-            // We don't know prompt tokens, so we'll use a placeholder
-            tokenUsage = {
-              prompt_tokens: 0, // Unknown
-              completion_tokens: estimatedCompletionTokens,
-              total_tokens: estimatedCompletionTokens // Incomplete total
+            return {
+              content: withPrefix(completion.content),
+              toolCalls,
+              aborted,
+              finishReason: completion.finishReason,
+              id: completion.id,
+              model: completion.model,
             };
-            
+          } else {
+            // Non-streaming mode - token information is directly available
+            const json = await createChatCompletion(requestOptions);
+            const choices = [...json.choices].sort((a, b) => a.index - b.index);
+            const content = withPrefix(choices[0]?.message?.content ?? '');
+            const toolCalls = choices[0]?.message?.tool_calls ?? [];
+            const responses = choices.map((choice) => choice.message.content ?? '');
+            const promptTokens = json.usage.prompt_tokens;
+            const completionTokens = json.usage.completion_tokens;
+            const totalTokens = json.usage.total_tokens;
+          
+            // Calculate approximate cost
+            const totalCostCents = calculateCost(model, { promptTokens, completionTokens }, data.currency, priceOverrides);
+          
+            // Currency label
+            const currencyLabel = data.currency === 'USD' ? 'cents' : 'euro cents';
+          
+            // Log detailed token and cost information
+            console.log(`Mistral API call:
+    Model: ${model}
+    Prompt tokens: ${promptTokens}
+    Completion tokens: ${completionTokens}
+    Total tokens: ${totalTokens}
+    Estimated cost: ${totalCostCents} ${currencyLabel}`);
+
+            setResponseOutputs(output, messages, content, toolCalls, !!data.enableToolCalling);
+            setResponses(responses);
+
             output['tokenDetails' as PortId] = {
               type: 'object',
               value: {
-                note: "Token details estimated - actual counts not available in streaming mode",
-                prompt: tokenUsage.prompt_tokens,
-                completion: tokenUsage.completion_tokens,
-                total: tokenUsage.total_tokens,
-                estimatedCostCents: 0, // Can't calculate accurately without prompt tokens
-                currency: data.currency
+                prompt: promptTokens,
+                completion: completionTokens,
+                total: totalTokens,
+                estimatedCostCents: totalCostCents,
+                currency: data.currency,
+                attempts: retries + 1
               }
             };
-          } else {
-            // Calculate cost with the found token usage
-            const modelInfo = mistralModels[model as MistralModels] || { 
-              cost: { 
-                prompt: { USD: "$0", EUR: "0 €" }, 
-                completion: { USD: "$0", EUR: "0 €" } 
-              } 
-            };
-
-            const promptPriceStr = modelInfo.cost.prompt[data.currency];
-            const completionPriceStr = modelInfo.cost.completion[data.currency];
 
-            const promptCostPerMillion = parseFloat(promptPriceStr.replace(/[^0-9.]/g, ''));
-            const completionCostPerMillion = completionPriceStr === '-' ? 0 : parseFloat(completionPriceStr.replace(/[^0-9.]/g, ''));
+            const finishReason = choices[0]?.finish_reason ?? null;
+            await responseCache?.set<CachedCompletion>(cacheKey, {
+              content: choices[0]?.message?.content ?? '',
+              toolCalls,
+              responses,
+              id: json.id,
+              model: json.model,
+              finishReason,
+              usage: json.usage,
+            });
 
-            const promptCost = (tokenUsage.prompt_tokens / 1000000) * promptCostPerMillion;
-            const completionCost = (tokenUsage.completion_tokens / 1000000) * completionCostPerMillion;
-            const totalCostDollars = promptCost + completionCost;
-            
-            const totalCostCents = Number((totalCostDollars * 100).toFixed(4));
+            return { content, toolCalls, aborted: false, finishReason, id: json.id, model: json.model };
+          }
+        };
 
+        // Continues a reply cut off at Max Tokens by sending it back as a prefix for the model to
+        // carry on from. Token details add up over all the requests.
+        const runWithContinuation = async (requestOptions: ChatCompletionOptions): Promise<CompletionResult> => {
+          let result = await runCompletion(requestOptions);
+          const canContinue = data.autoContinue && !(requestOptions.n && requestOptions.n > 1);
+          let continuations = 0;
+          while (
+            canContinue &&
+            result.finishReason === 'length' &&
+            !result.toolCalls.length &&
+            continuations < (data.maxContinuations ?? 3)
+          ) {
+            continuations++;
+            console.log(`Mistral response reached Max Tokens, continuing (${continuations})`);
+            const previousDetails = output['tokenDetails' as PortId]!.value as Record<string, unknown>;
+            // The reply so far is part of the prompt now, so the conversation may need to be fitted again
+            const continuationMessages = await fitContext([...requestOptions.messages, { role: 'assistant', content: result.content, prefix: true }]);
+            if (droppingStrategies.includes(contextOverflow)) {
+              output['droppedMessages' as PortId] = {
+                type: 'chat-message[]',
+                value: droppedMessages.map(convertFromMistralMessage),
+              };
+            }
+            result = await runCompletion({ ...requestOptions, messages: continuationMessages }, result.content);
             output['tokenDetails' as PortId] = {
               type: 'object',
               value: {
-                prompt: tokenUsage.prompt_tokens,
-                completion: tokenUsage.completion_tokens,
-                total: tokenUsage.total_tokens,
-                estimatedCostCents: totalCostCents,
-                currency: data.currency
+                ...mergeTokenDetails(previousDetails, output['tokenDetails' as PortId]!.value as Record<string, unknown>),
+                continuations
               }
             };
           }
-        } else {
-          // Non-streaming mode - token information is directly available
-          const json = await response.json();
-          const content = json.choices[0]?.message?.content;
-          const promptTokens = json.usage.prompt_tokens;
-          const completionTokens = json.usage.completion_tokens;
-          const totalTokens = json.usage.total_tokens;
-          
-          // Calculate approximate cost
-          const modelInfo = mistralModels[model as MistralModels] || { 
-            cost: { 
-              prompt: { USD: "$0", EUR: "0 €" }, 
-              completion: { USD: "$0", EUR: "0 €" } 
-            } 
-          };
 
-          // Get the price for the selected currency
-          const promptPriceStr = modelInfo.cost.prompt[data.currency];
-          const completionPriceStr = modelInfo.cost.completion[data.currency];
+          setCompletionInfoOutputs(output, result, model);
+          return result;
+        };
 
-          // Parse the cost values (removing currency symbols and converting to number)
-          const promptCostPerMillion = parseFloat(promptPriceStr.replace(/[^0-9.]/g, ''));
-          const completionCostPerMillion = completionPriceStr === '-' ? 0 : parseFloat(completionPriceStr.replace(/[^0-9.]/g, ''));
+        // Structured output is validated after each attempt; invalid replies are fed back to the
+        // model with the validation errors so it can correct itself.
+        let requestMessages = messages;
+        for (let attempt = 0; ; attempt++) {
+          const { content, toolCalls, aborted } = await runWithContinuation({ ...requestOptions, messages: requestMessages });
 
-          // Special case for OCR which is priced per page
-          let totalCostCents = 0;
-          
-          if (model === 'mistral-ocr-latest') {
-            // OCR cost calculation would go here
-            // This is a placeholder since OCR doesn't use token-based pricing
-            totalCostCents = 0; // We'd need a different calculation for OCR
-          } else {
-            // Regular token-based cost calculation
-            const promptCost = (promptTokens / 1000000) * promptCostPerMillion;
-            const completionCost = (completionTokens / 1000000) * completionCostPerMillion;
-            const totalCostDollars = promptCost + completionCost;
-            
-            // Convert to cents and round to 4 decimal places
-            totalCostCents = Number((totalCostDollars * 100).toFixed(4));
+          if (!responseFormat || responseFormat.type === 'text') {
+            break;
+          }
+
+          if (aborted) {
+            // A partial reply can't be validated, so there is no object
+            output['object' as PortId] = { type: 'control-flow-excluded', value: undefined };
+            break;
           }
-          
-          // Currency label
-          const currencyLabel = data.currency === 'USD' ? 'cents' : 'euro cents';
-          
-          // Log detailed token and cost information
-          console.log(`Mistral API call:
-    Model: ${model}
-    Prompt tokens: ${promptTokens}
-    Completion tokens: ${completionTokens}
-    Total tokens: ${totalTokens}
-    Estimated cost: ${totalCostCents} ${currencyLabel}`);
 
-          const assistantMessage = createAssistantMessage(content);
+          if (toolCalls.length) {
+            // The model chose to call a tool instead of answering, so there is no object yet
+            output['object' as PortId] = { type: 'control-flow-excluded', value: undefined };
+            break;
+          }
 
-          output['response' as PortId] = {
-            type: 'string',
-            value: content,
-          };
+          const result = parseStructuredOutput(content, jsonSchema);
+          if (result.success) {
+            output['object' as PortId] = { type: 'object', value: result.value };
+            break;
+          }
 
-          output['message' as PortId] = {
-            type: 'chat-message',
-            value: assistantMessage,
-          };
+          if (attempt >= (data.structuredOutputRetries ?? 0)) {
+            throw new Error(`Mistral response did not match the requested format after ${attempt + 1} attempt(s):\n${result.error}`);
+          }
 
-          output['messages' as PortId] = {
-            type: 'chat-message[]',
-            value: [
-              ...messages.map(m => {
-                if (m.role === 'system') return createSystemMessage(m.content);
-                if (m.role === 'user') return createUserMessage(m.content);
-                return createAssistantMessage(m.content);
-              }),
-              assistantMessage,
-            ],
-          };
-          
+          console.warn(`Mistral response failed validation (attempt ${attempt + 1}), retrying:`, result.error);
+          requestMessages = [
+            ...requestMessages,
+            { role: 'assistant', content },
+            {
+              role: 'user',
+              content: `Your previous reply was not valid:\n${result.error}\nReply again with only the corrected JSON.`,
+            },
+          ];
+        }
+
+        if (summaryCostCents) {
+          // The summary request is billed too, at the summary model's price
+          const tokenDetails = output['tokenDetails' as PortId]!.value as { estimatedCostCents: number };
           output['tokenDetails' as PortId] = {
             type: 'object',
             value: {
-              prompt: promptTokens,
-              completion: completionTokens,
-              total: totalTokens,
-              estimatedCostCents: totalCostCents,
-              currency: data.currency
+              ...tokenDetails,
+              summaryCostCents,
+              estimatedCostCents: Number((tokenDetails.estimatedCostCents + summaryCostCents).toFixed(4))
             }
           };
         }
-
         return output;
       } catch (error) {
         console.error("Error in Mistral Chat node:", error);
         throw error;
+      } finally {
+        timeout.dispose();
       }
     },
   };
 
   return rivet.pluginNodeDefinition(nodeImpl, 'Mistral Chat');
 }
+
+// Adds up the token details of a reply and its continuation
+function mergeTokenDetails(previous: Record<string, unknown>, next: Record<string, unknown>): Record<string, unknown> {
+  const sum = (key: string) => ((previous[key] as number | undefined) ?? 0) + ((next[key] as number | undefined) ?? 0);
+  const { cached, ...rest } = next;
+  return {
+    ...rest,
+    prompt: sum('prompt'),
+    completion: sum('completion'),
+    total: sum('total'),
+    estimatedCostCents: Number(sum('estimatedCostCents').toFixed(4)),
+    // Only a cached result if none of it was paid for
+    ...(cached && previous.cached ? { cached } : {}),
+  };
+}
+
+function parseJsonSchema(schema: unknown): object {
+  if (schema && typeof schema === 'object') {
+    return schema;
+  }
+
+  if (typeof schema !== 'string' || !schema.trim()) {
+    throw new Error('JSON schema response format is selected, but no schema was provided.');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(schema);
+  } catch (e) {
+    throw new Error(`Invalid JSON schema: ${(e as Error).message}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Invalid JSON schema: expected a JSON object.');
+  }
+  return parsed;
+}
+
+function parseStructuredOutput(
+  content: string,
+  schema: object | undefined,
+): { success: true; value: Record<string, unknown> } | { success: false; error: string } {
+  // Models occasionally wrap JSON in a markdown code fence even in JSON mode
+  const json = content.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (e) {
+    return { success: false, error: `Response is not valid JSON: ${(e as Error).message}` };
+  }
+
+  if (schema) {
+    const errors = validateJsonSchema(value, schema);
+    if (errors.length) {
+      return { success: false, error: `Response does not match the JSON schema:\n${formatJsonSchemaErrors(errors)}` };
+    }
+  }
+
+  return { success: true, value: value as Record<string, unknown> };
+}
+
+function getImageChunks(imagesInput: DataValue | undefined): ContentChunk[] {
+  if (!imagesInput) {
+    return [];
+  }
+
+  return match(imagesInput)
+    .with({ type: 'image' }, ({ value }) => [createImageChunk(value.mediaType, value.data)])
+    .with({ type: 'image[]' }, ({ value }) => value.map((image) => createImageChunk(image.mediaType, image.data)))
+    .with({ type: 'string' }, ({ value }): ContentChunk[] => [{ type: 'image_url', image_url: value }])
+    .with({ type: 'string[]' }, ({ value }) => value.map((url): ContentChunk => ({ type: 'image_url', image_url: url })))
+    .otherwise(() => {
+      throw new Error(`Invalid images input: ${imagesInput.type}`);
+    });
+}
+
+// Images go with the last user message, so they are read in the context of the latest question
+function attachImages(messages: MistralMessage[], imageChunks: ContentChunk[]): void {
+  if (!imageChunks.length) {
+    return;
+  }
+
+  const lastUserMessage = [...messages].reverse().find((message) => message.role === 'user');
+  if (!lastUserMessage) {
+    messages.push({ role: 'user', content: imageChunks });
+    return;
+  }
+
+  const existingContent: ContentChunk[] = typeof lastUserMessage.content === 'string'
+    ? [{ type: 'text', text: lastUserMessage.content }]
+    : lastUserMessage.content;
+  lastUserMessage.content = [...existingContent, ...imageChunks];
+}
@@ -0,0 +1,543 @@
+import type {
+  ChartNode,
+  EditorDefinition,
+  Inputs,
+  InternalProcessContext,
+  NodeId,
+  NodeInputDefinition,
+  NodeOutputDefinition,
+  NodeUIData,
+  Outputs,
+  PluginNodeImpl,
+  PortId,
+  Rivet,
+} from '@ironclad/rivet-core';
+import {
+  appendToConversation,
+  restartConversation,
+  startConversation,
+  type BuiltInConnector,
+  type ConversationCompletionArgs,
+  type ConversationContentChunk,
+  type ConversationEntry,
+  type ConversationInput,
+  type ConversationResponse,
+} from '../impl/conversationsApi.js';
+import { withTimeout } from '../impl/mistralApi.js';
+import { getModel, getModelOptions, refreshModels, validateModel } from '../impl/modelRegistry.js';
+import { calculateCost } from '../impl/pricing.js';
+import {
+  applyRetryOverrides,
+  getMistralRequestOptions,
+  getPriceOverrides,
+  retryEditors,
+  type RetryOverrideData,
+} from '../impl/pluginConfig.js';
+import { createAssistantMessage } from '../mistral.js';
+
+export type MistralConversationNode = ChartNode<'mistralConversation', MistralConversationNodeData>;
+
+export type MistralConversationNodeData = RetryOverrideData & {
+  // Start a new conversation, add to an existing one, or redo it from one of its entries
+  mode: 'start' | 'append' | 'restart';
+  conversationId: string;
+  useConversationIdInput: boolean;
+  fromEntryId: string;
+  useFromEntryIdInput: boolean;
+  // Used when starting; an agent id takes the place of the model
+  model: string;
+  useModelInput: boolean;
+  agentId: string;
+  instructions: string;
+  useInstructionsInput: boolean;
+  webSearch: boolean;
+  premiumWebSearch: boolean;
+  codeInterpreter: boolean;
+  imageGeneration: boolean;
+  documentLibrary: boolean;
+  libraryIds: string[];
+  // Unset means the model's or agent's default
+  temperature?: number;
+  maxTokens?: number;
+  store: boolean;
+  currency: 'USD' | 'EUR';
+  // Connectors can take a while, so this limits the whole request; unset means no limit
+  timeoutMs?: number;
+};
+
+type OutputChunk = Exclude<ConversationContentChunk, { type: 'text' }>;
+
+export default function (rivet: typeof Rivet) {
+  const nodeImpl: PluginNodeImpl<MistralConversationNode> = {
+    create(): MistralConversationNode {
+      return {
+        id: rivet.newId<NodeId>(),
+        type: 'mistralConversation',
+        title: 'Mistral Conversation',
+        data: {
+          mode: 'start',
+          conversationId: '',
+          useConversationIdInput: true,
+          fromEntryId: '',
+          useFromEntryIdInput: true,
+          model: 'mistral-medium-latest',
+          useModelInput: false,
+          agentId: '',
+          instructions: '',
+          useInstructionsInput: false,
+          webSearch: true,
+          premiumWebSearch: false,
+          codeInterpreter: false,
+          imageGeneration: false,
+          documentLibrary: false,
+          libraryIds: [],
+          temperature: undefined,
+          maxTokens: undefined,
+          store: true,
+          currency: 'USD',
+          maxRetries: undefined,
+          retryBaseDelayMs: undefined,
+          timeoutMs: undefined,
+        },
+        visualData: {
+          x: 0,
+          y: 0,
+          width: 300,
+        },
+      };
+    },
+
+    getInputDefinitions(data): NodeInputDefinition[] {
+      const inputs: NodeInputDefinition[] = [];
+
+      if (data.mode === 'start') {
+        if (data.useModelInput) {
+          inputs.push({
+            id: 'model' as PortId,
+            title: 'Model',
+            dataType: 'string',
+            required: false,
+          });
+        }
+
+        if (data.useInstructionsInput) {
+          inputs.push({
+            id: 'instructions' as PortId,
+            title: 'Instructions',
+            dataType: 'string',
+            required: false,
+          });
+        }
+      } else {
+        if (data.useConversationIdInput) {
+          inputs.push({
+            id: 'conversationId' as PortId,
+            title: 'Conversation ID',
+            dataType: 'string',
+            required: true,
+          });
+        }
+
+        if (data.mode === 'restart' && data.useFromEntryIdInput) {
+          inputs.push({
+            id: 'fromEntryId' as PortId,
+            title: 'From Entry ID',
+            dataType: 'string',
+            required: true,
+            description: 'The entry to restart after. Everything that came after it is replaced.',
+          });
+        }
+      }
+
+      inputs.push({
+        id: 'prompt' as PortId,
+        title: 'Prompt',
+        dataType: ['string', 'chat-message', 'chat-message[]'],
+        required: true,
+        description: 'The next user message, or user and assistant messages to add to the conversation.',
+      });
+
+      return inputs;
+    },
+
+    getOutputDefinitions(): NodeOutputDefinition[] {
+      return [
+        {
+          id: 'response' as PortId,
+          title: 'Response',
+          dataType: 'string',
+          description: 'The text of the assistant\'s reply.',
+        },
+        {
+          id: 'message' as PortId,
+          title: 'Message',
+          dataType: 'chat-message',
+        },
+        {
+          id: 'conversationId' as PortId,
+          title: 'Conversation ID',
+          dataType: 'string',
+          description: 'Connect this to an append or restart node to continue the conversation.',
+        },
+        {
+          id: 'entries' as PortId,
+          title: 'Entries',
+          dataType: 'object[]',
+          description: 'Everything this request added to the conversation: messages, tool executions and handoffs, with their ids.',
+        },
+        {
+          id: 'references' as PortId,
+          title: 'References',
+          dataType: 'object[]',
+          description: 'The sources the reply cites, such as web pages or library documents, with their titles and URLs.',
+        },
+        {
+          id: 'files' as PortId,
+          title: 'Files',
+          dataType: 'object[]',
+          description: 'Files made by tools, such as generated images or code interpreter output. Download them by file id.',
+        },
+        {
+          id: 'usage' as PortId,
+          title: 'Usage',
+          dataType: 'object',
+          description: 'Tokens, connector calls and estimated token cost. Connector calls are billed separately and not included in the cost.',
+        },
+      ];
+    },
+
+    async getEditors(data, context): Promise<EditorDefinition<MistralConversationNode>[]> {
+      await refreshModels(context);
+
+      const isStart = (data: MistralConversationNodeData) => data.mode === 'start';
+
+      return [
+        {
+          type: 'dropdown',
+          label: 'Mode',
+          dataKey: 'mode',
+          options: [
+            { value: 'start', label: 'Start a conversation' },
+            { value: 'append', label: 'Append to a conversation' },
+            { value: 'restart', label: 'Restart from an entry' },
+          ],
+        },
+        {
+          type: 'string',
+          label: 'Conversation ID',
+          dataKey: 'conversationId',
+          useInputToggleDataKey: 'useConversationIdInput',
+          hideIf: isStart,
+        },
+        {
+          type: 'string',
+          label: 'From Entry ID',
+          dataKey: 'fromEntryId',
+          useInputToggleDataKey: 'useFromEntryIdInput',
+          hideIf: (data) => data.mode !== 'restart',
+        },
+        {
+          type: 'dropdown',
+          label: 'Model',
+          dataKey: 'model',
+          useInputToggleDataKey: 'useModelInput',
+          options: getModelOptions((model) => model.capabilities.chat && model.capabilities.tools, data.model),
+          hideIf: (data) => !isStart(data),
+        },
+        {
+          type: 'string',
+          label: 'Agent ID',
+          dataKey: 'agentId',
+          placeholder: 'ag:...',
+          helperMessage: 'Talk to a hosted agent instead of the model. Its own tools and instructions are used.',
+          hideIf: (data) => !isStart(data),
+        },
+        {
+          type: 'code',
+          label: 'Instructions',
+          dataKey: 'instructions',
+          useInputToggleDataKey: 'useInstructionsInput',
+          language: 'markdown',
+          hideIf: (data) => !isStart(data),
+        },
+        {
+          type: 'toggle',
+          label: 'Web Search',
+          dataKey: 'webSearch',
+          hideIf: (data) => !isStart(data),
+        },
+        {
+          type: 'toggle',
+          label: 'Premium Web Search',
+          dataKey: 'premiumWebSearch',
+          helperMessage: 'Also searches news agencies. Used instead of standard web search.',
+          hideIf: (data) => !isStart(data),
+        },
+        {
+          type: 'toggle',
+          label: 'Code Interpreter',
+          dataKey: 'codeInterpreter',
+          hideIf: (data) => !isStart(data),
+        },
+        {
+          type: 'toggle',
+          label: 'Image Generation',
+          dataKey: 'imageGeneration',
+          hideIf: (data) => !isStart(data),
+        },
+        {
+          type: 'toggle',
+          label: 'Document Library',
+          dataKey: 'documentLibrary',
+          hideIf: (data) => !isStart(data),
+        },
+        {
+          type: 'stringList',
+          label: 'Library IDs',
+          dataKey: 'libraryIds',
+          placeholder: 'Library id',
+          hideIf: (data) => !isStart(data) || !data.documentLibrary,
+        },
+        {
+          type: 'number',
+          label: 'Temperature',
+          dataKey: 'temperature',
+          min: 0,
+          max: 1.5,
+          step: 0.1,
+          allowEmpty: true,
+          helperMessage: 'Leave empty for the default.',
+        },
+        {
+          type: 'number',
+          label: 'Max Tokens',
+          dataKey: 'maxTokens',
+          min: 0,
+          step: 1,
+          allowEmpty: true,
+          helperMessage: 'Leave empty for the default.',
+        },
+        {
+          type: 'toggle',
+          label: 'Store Conversation',
+          dataKey: 'store',
+          helperMessage: 'Conversations that are not stored cannot be appended to or restarted.',
+        },
+        ...retryEditors<MistralConversationNode>(),
+        {
+          type: 'number',
+          label: 'Timeout (ms)',
+          dataKey: 'timeoutMs',
+          min: 0,
+          step: 1000,
+          allowEmpty: true,
+          helperMessage: 'Cancels the request if it takes longer than this. Leave empty for no limit.',
+        },
+        {
+          type: 'dropdown',
+          label: 'Currency',
+          dataKey: 'currency',
+          options: [
+            { value: 'USD', label: 'USD ($)' },
+            { value: 'EUR', label: 'EUR (€)' },
+          ],
+        },
+      ];
+    },
+
+    getUIData(): NodeUIData {
+      return {
+        contextMenuTitle: 'Mistral Conversation',
+        group: 'AI/Chat (Mistral)',
+        infoBoxBody: `Starts, appends to or restarts a conversation with Mistral's Conversations API, with built-in connectors such as web search, code interpreter, image generation and document libraries. Outputs the reply along with its references and generated files.`,
+        infoBoxTitle: 'Mistral Conversation Node',
+      };
+    },
+
+    getBody(data): string {
+      if (data.mode !== 'start') {
+        return `${data.mode === 'append' ? 'Append to' : 'Restart'}: ${data.useConversationIdInput ? '(input)' : data.conversationId || '(not set)'}`;
+      }
+
+      const connectors = getConnectors(data).map((connector) => connector.type.replace(/_/g, ' '));
+      return `${data.agentId ? `Agent: ${data.agentId}` : `Model: ${data.useModelInput ? '(input)' : getModel(data.model)?.displayName ?? data.model}`}
+Connectors: ${connectors.length ? connectors.join(', ') : 'None'}`;
+    },
+
+    async process(data, inputs: Inputs, context: InternalProcessContext): Promise<Outputs> {
+      const prompt = getConversationInput(rivet, inputs);
+      const completionArgs: ConversationCompletionArgs | undefined =
+        data.temperature !== undefined || data.maxTokens !== undefined
+          ? { temperature: data.temperature, max_tokens: data.maxTokens }
+          : undefined;
+
+      let retries = 0;
+      const timeout = withTimeout(context.signal, data.timeoutMs);
+      const requestOptions = {
+        ...applyRetryOverrides(getMistralRequestOptions(context), data),
+        onRetry: () => retries++,
+        signal: timeout.signal,
+        inputs: prompt,
+        completionArgs,
+        store: data.store,
+      };
+
+      let model: string | undefined;
+      let response: ConversationResponse;
+      try {
+        if (data.mode === 'start') {
+          const agentId = data.agentId.trim();
+          if (!agentId) {
+            model = rivet.getInputOrData(data, inputs, 'model', 'string') ?? data.model;
+            await refreshModels(context);
+            validateModel(model, { capabilities: ['chat'], maxTokens: data.maxTokens });
+          }
+
+          const connectors = getConnectors(data);
+          if (data.documentLibrary && !connectors.some((connector) => connector.type === 'document_library')) {
+            throw new Error('Document library is enabled, but no library ids were given. Add at least one under Library IDs.');
+          }
+
+          response = await startConversation({
+            ...requestOptions,
+            model,
+            agentId: agentId || undefined,
+            instructions: rivet.getInputOrData(data, inputs, 'instructions', 'string') ?? data.instructions,
+            tools: connectors,
+          });
+        } else {
+          const conversationId = (rivet.getInputOrData(data, inputs, 'conversationId', 'string') ?? data.conversationId).trim();
+          if (!conversationId) {
+            throw new Error('No conversation id provided. Connect the Conversation ID output of the node that started it.');
+          }
+
+          if (data.mode === 'append') {
+            response = await appendToConversation({ ...requestOptions, conversationId });
+          } else {
+            const fromEntryId = (rivet.getInputOrData(data, inputs, 'fromEntryId', 'string') ?? data.fromEntryId).trim();
+            if (!fromEntryId) {
+              throw new Error('No entry id provided to restart from. Use an id from the Entries output.');
+            }
+            response = await restartConversation({ ...requestOptions, conversationId, fromEntryId });
+          }
+        }
+      } finally {
+        timeout.dispose();
+      }
+
+      const messageOutputs = response.outputs.filter(
+        (entry): entry is Extract<ConversationEntry, { type: 'message.output' }> => entry.type === 'message.output',
+      );
+      const chunks = messageOutputs.flatMap((entry) => (typeof entry.content === 'string' ? [] : entry.content));
+      const text = messageOutputs
+        .map((entry) => (typeof entry.content === 'string' ? entry.content : getChunkText(entry.content)))
+        .join('');
+
+      // The model that answered is on the entries; appended conversations don't know it otherwise
+      const billedModel = messageOutputs.find((entry) => entry.model)?.model ?? model;
+      const costCents = billedModel
+        ? calculateCost(
+            billedModel,
+            { promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens },
+            data.currency,
+            getPriceOverrides(context),
+          )
+        : 0;
+
+      return {
+        ['response' as PortId]: {
+          type: 'string',
+          value: text,
+        },
+        ['message' as PortId]: {
+          type: 'chat-message',
+          value: createAssistantMessage(text),
+        },
+        ['conversationId' as PortId]: {
+          type: 'string',
+          value: response.conversation_id,
+        },
+        ['entries' as PortId]: {
+          type: 'object[]',
+          value: response.outputs,
+        },
+        ['references' as PortId]: {
+          type: 'object[]',
+          value: chunks
+            .filter((chunk): chunk is Extract<OutputChunk, { type: 'tool_reference' }> => chunk.type === 'tool_reference')
+            .map(({ tool, title, url, favicon, description }) => ({ tool, title, url, favicon, description })),
+        },
+        ['files' as PortId]: {
+          type: 'object[]',
+          value: chunks
+            .filter((chunk): chunk is Extract<OutputChunk, { type: 'tool_file' }> => chunk.type === 'tool_file')
+            .map(({ tool, file_id, file_name, file_type }) => ({ tool, fileId: file_id, fileName: file_name, fileType: file_type })),
+        },
+        ['usage' as PortId]: {
+          type: 'object',
+          value: {
+            model: billedModel ?? null,
+            prompt: response.usage.prompt_tokens,
+            completion: response.usage.completion_tokens,
+            total: response.usage.total_tokens,
+            connectorTokens: response.usage.connector_tokens ?? 0,
+            connectors: response.usage.connectors ?? {},
+            estimatedCostCents: costCents,
+            currency: data.currency,
+            attempts: retries + 1,
+          },
+        },
+      };
+    },
+  };
+
+  return rivet.pluginNodeDefinition(nodeImpl, 'Mistral Conversation');
+}
+
+function getConnectors(data: MistralConversationNodeData): BuiltInConnector[] {
+  const connectors: BuiltInConnector[] = [];
+  if (data.premiumWebSearch) {
+    connectors.push({ type: 'web_search_premium' });
+  } else if (data.webSearch) {
+    connectors.push({ type: 'web_search' });
+  }
+  if (data.codeInterpreter) {
+    connectors.push({ type: 'code_interpreter' });
+  }
+  if (data.imageGeneration) {
+    connectors.push({ type: 'image_generation' });
+  }
+  const libraryIds = data.libraryIds.map((id) => id.trim()).filter(Boolean);
+  if (data.documentLibrary && libraryIds.length) {
+    connectors.push({ type: 'document_library', library_ids: libraryIds });
+  }
+  return connectors;
+}
+
+// Reference chunks sit between text chunks where they are cited, so only the text is joined
+function getChunkText(chunks: ConversationContentChunk[]): string {
+  return chunks.map((chunk) => (chunk.type === 'text' ? chunk.text : '')).join('');
+}
+
+function getConversationInput(rivet: typeof Rivet, inputs: Inputs): ConversationInput {
+  const promptInput = inputs['prompt' as PortId];
+  if (!promptInput) {
+    throw new Error('No prompt provided');
+  }
+
+  if (promptInput.type !== 'chat-message' && promptInput.type !== 'chat-message[]') {
+    return rivet.coerceType(promptInput, 'string');
+  }
+
+  const messages = promptInput.type === 'chat-message' ? [promptInput.value] : promptInput.value;
+  return messages.map((message) => {
+    if (message.type !== 'user' && message.type !== 'assistant') {
+      throw new Error(`Conversation inputs can only be user or assistant messages, not ${message.type} messages. Use Instructions for a system prompt.`);
+    }
+    return {
+      type: 'message.input' as const,
+      role: message.type,
+      content: rivet.coerceType({ type: 'chat-message', value: message }, 'string'),
+    };
+  });
+}
@@ -0,0 +1,221 @@
+import type {
+  ChartNode,
+  EditorDefinition,
+  Inputs,
+  InternalProcessContext,
+  NodeId,
+  NodeInputDefinition,
+  NodeOutputDefinition,
+  NodeUIData,
+  Outputs,
+  PluginNodeImpl,
+  PortId,
+  Rivet,
+} from '@ironclad/rivet-core';
+import { createEmbeddingsBatched, type EmbeddingResponse } from '../impl/embeddingsApi.js';
+import { withTimeout } from '../impl/mistralApi.js';
+import { getModel, getModelOptions, refreshModels, validateModel, type RegisteredModel } from '../impl/modelRegistry.js';
+import { calculateCost, formatPrice, getModelPrice } from '../impl/pricing.js';
+import { loadTokenizer } from '../impl/tokenizer.js';
+import {
+  applyRetryOverrides,
+  getMistralRequestOptions,
+  getPriceOverrides,
+  retryEditors,
+  type RetryOverrideData,
+} from '../impl/pluginConfig.js';
+
+export type MistralEmbeddingNode = ChartNode<'mistralEmbedding', MistralEmbeddingNodeData>;
+
+export type MistralEmbeddingNodeData = RetryOverrideData & {
+  model: string;
+  useModelInput: boolean;
+  currency: 'USD' | 'EUR';
+  // Limit for the whole request; unset means no limit
+  timeoutMs?: number;
+};
+
+const isEmbeddingModel = (model: RegisteredModel) => model.capabilities.embedding;
+
+export default function (rivet: typeof Rivet) {
+  const nodeImpl: PluginNodeImpl<MistralEmbeddingNode> = {
+    create(): MistralEmbeddingNode {
+      return {
+        id: rivet.newId<NodeId>(),
+        type: 'mistralEmbedding',
+        title: 'Mistral Embedding',
+        data: {
+          model: 'mistral-embed',
+          useModelInput: false,
+          currency: 'USD',
+          maxRetries: undefined,
+          retryBaseDelayMs: undefined,
+          timeoutMs: undefined,
+        },
+        visualData: {
+          x: 0,
+          y: 0,
+          width: 250,
+        },
+      };
+    },
+
+    getInputDefinitions(data): NodeInputDefinition[] {
+      const inputs: NodeInputDefinition[] = [];
+
+      if (data.useModelInput) {
+        inputs.push({
+          id: 'model' as PortId,
+          title: 'Model',
+          dataType: 'string',
+          required: false,
+        });
+      }
+
+      inputs.push({
+        id: 'input' as PortId,
+        title: 'Input',
+        dataType: ['string', 'string[]'],
+        required: true,
+        description: 'The text to embed. Large lists are split into several requests automatically.',
+      });
+
+      return inputs;
+    },
+
+    getOutputDefinitions(): NodeOutputDefinition[] {
+      return [
+        {
+          id: 'embedding' as PortId,
+          title: 'Embedding',
+          dataType: 'vector',
+          description: 'The embedding of the input, or of the first input if a list was given.',
+        },
+        {
+          id: 'embeddings' as PortId,
+          title: 'Embeddings',
+          dataType: 'vector[]',
+          description: 'The embeddings of every input, in input order.',
+        },
+        {
+          id: 'tokenDetails' as PortId,
+          title: 'Token Details',
+          dataType: 'object',
+        },
+      ];
+    },
+
+    async getEditors(data, context): Promise<EditorDefinition<MistralEmbeddingNode>[]> {
+      await refreshModels(context);
+
+      return [
+        {
+          type: 'dropdown',
+          label: 'Model',
+          dataKey: 'model',
+          useInputToggleDataKey: 'useModelInput',
+          options: getModelOptions(isEmbeddingModel, data.model),
+        },
+        {
+          type: 'dropdown',
+          label: 'Currency',
+          dataKey: 'currency',
+          options: [
+            { value: 'USD', label: 'USD ($)' },
+            { value: 'EUR', label: 'EUR (€)' },
+          ],
+        },
+        ...retryEditors<MistralEmbeddingNode>(),
+        {
+          type: 'number',
+          label: 'Timeout (ms)',
+          dataKey: 'timeoutMs',
+          min: 0,
+          step: 1000,
+          allowEmpty: true,
+          helperMessage: 'Cancels the request if it takes longer than this, including every batch of inputs. Leave empty for no limit.',
+        },
+      ];
+    },
+
+    getUIData(): NodeUIData {
+      return {
+        contextMenuTitle: 'Mistral Embedding',
+        group: 'AI/Embeddings (Mistral)',
+        infoBoxBody: `Generates embeddings for one or more strings using Mistral AI's embeddings API. The vectors can be used with Rivet's vector nodes.`,
+        infoBoxTitle: 'Mistral Embedding Node',
+      };
+    },
+
+    getBody(data): string {
+      const modelInfo = getModel(data.model);
+      return `Model: ${data.useModelInput ? '(input)' : modelInfo?.displayName ?? data.model}
+${formatPrice(getModelPrice(data.model, data.currency).input, data.currency)}/1M tokens`;
+    },
+
+    async process(data, inputs: Inputs, context: InternalProcessContext): Promise<Outputs> {
+      const model = rivet.getInputOrData(data, inputs, 'model', 'string') ?? data.model;
+
+      await refreshModels(context);
+      validateModel(model, { capabilities: ['embedding'] });
+
+      const inputValue = inputs['input' as PortId];
+      const texts = inputValue?.type === 'string'
+        ? [inputValue.value]
+        : rivet.coerceTypeOptional(inputValue, 'string[]');
+      if (!texts?.length) {
+        throw new Error('No input provided to embed');
+      }
+
+      let retries = 0;
+      const timeout = withTimeout(context.signal, data.timeoutMs);
+      let response: EmbeddingResponse;
+      try {
+        response = await createEmbeddingsBatched({
+          ...applyRetryOverrides(getMistralRequestOptions(context), data),
+          onRetry: () => retries++,
+          signal: timeout.signal,
+          model,
+          input: texts,
+          // Exact counts let each request be filled up to the limit
+          tokenizer: await loadTokenizer(context, model),
+        });
+      } finally {
+        timeout.dispose();
+      }
+
+      const embeddings = response.data.map(({ embedding }) => embedding);
+
+      // Embeddings are priced on input tokens only
+      const totalCostCents = calculateCost(
+        model,
+        { promptTokens: response.usage.prompt_tokens },
+        data.currency,
+        getPriceOverrides(context),
+      );
+
+      return {
+        ['embedding' as PortId]: {
+          type: 'vector',
+          value: embeddings[0]!,
+        },
+        ['embeddings' as PortId]: {
+          type: 'vector[]',
+          value: embeddings,
+        },
+        ['tokenDetails' as PortId]: {
+          type: 'object',
+          value: {
+            prompt: response.usage.prompt_tokens,
+            total: response.usage.total_tokens,
+            estimatedCostCents: totalCostCents,
+            currency: data.currency,
+            attempts: retries + 1,
+          },
+        },
+      };
+    },
+  };
+
+  return rivet.pluginNodeDefinition(nodeImpl, 'Mistral Embedding');
+}
@@ -0,0 +1,303 @@
+import type {
+  ChartNode,
+  EditorDefinition,
+  Inputs,
+  InternalProcessContext,
+  NodeId,
+  NodeInputDefinition,
+  NodeOutputDefinition,
+  NodeUIData,
+  Outputs,
+  PluginNodeImpl,
+  PortId,
+  Rivet,
+} from '@ironclad/rivet-core';
+import { deleteFile, downloadFile, getSignedUrl, listFiles, retrieveFile, type FilePurpose } from '../impl/filesApi.js';
+import { withTimeout } from '../impl/mistralApi.js';
+import {
+  applyRetryOverrides,
+  getMistralRequestOptions,
+  retryEditors,
+  type RetryOverrideData,
+} from '../impl/pluginConfig.js';
+
+export type MistralFilesNode = ChartNode<'mistralFiles', MistralFilesNodeData>;
+
+export type MistralFilesOperation = 'list' | 'retrieve' | 'delete' | 'signedUrl' | 'download';
+
+export type MistralFilesNodeData = RetryOverrideData & {
+  operation: MistralFilesOperation;
+  fileId: string;
+  useFileIdInput: boolean;
+  // List filters; an empty purpose lists files of every purpose
+  purpose: FilePurpose | '';
+  search: string;
+  useSearchInput: boolean;
+  page?: number;
+  pageSize?: number;
+  // Unset means Mistral's default of 24 hours
+  expiryHours?: number;
+  // Limit for the whole request; unset means no limit
+  timeoutMs?: number;
+};
+
+const operationLabels: Record<MistralFilesOperation, string> = {
+  list: 'List files',
+  retrieve: 'Get file',
+  delete: 'Delete file',
+  signedUrl: 'Get signed URL',
+  download: 'Download file',
+};
+
+export default function (rivet: typeof Rivet) {
+  const nodeImpl: PluginNodeImpl<MistralFilesNode> = {
+    create(): MistralFilesNode {
+      return {
+        id: rivet.newId<NodeId>(),
+        type: 'mistralFiles',
+        title: 'Mistral Files',
+        data: {
+          operation: 'list',
+          fileId: '',
+          useFileIdInput: true,
+          purpose: '',
+          search: '',
+          useSearchInput: false,
+          page: undefined,
+          pageSize: undefined,
+          expiryHours: undefined,
+          maxRetries: undefined,
+          retryBaseDelayMs: undefined,
+          timeoutMs: undefined,
+        },
+        visualData: {
+          x: 0,
+          y: 0,
+          width: 250,
+        },
+      };
+    },
+
+    getInputDefinitions(data): NodeInputDefinition[] {
+      if (data.operation === 'list') {
+        return data.useSearchInput
+          ? [{ id: 'search' as PortId, title: 'Search', dataType: 'string', required: false }]
+          : [];
+      }
+
+      return data.useFileIdInput
+        ? [{ id: 'fileId' as PortId, title: 'File ID', dataType: 'string', required: true }]
+        : [];
+    },
+
+    getOutputDefinitions(data): NodeOutputDefinition[] {
+      switch (data.operation) {
+        case 'list':
+          return [
+            {
+              id: 'files' as PortId,
+              title: 'Files',
+              dataType: 'object[]',
+              description: 'Each file\'s id, name, size, purpose and creation time.',
+            },
+            {
+              id: 'fileIds' as PortId,
+              title: 'File IDs',
+              dataType: 'string[]',
+            },
+            {
+              id: 'total' as PortId,
+              title: 'Total',
+              dataType: 'number',
+              description: 'The number of matching files across all pages.',
+            },
+          ];
+        case 'retrieve':
+          return [
+            { id: 'fileId' as PortId, title: 'File ID', dataType: 'string' },
+            { id: 'file' as PortId, title: 'File', dataType: 'object' },
+          ];
+        case 'delete':
+          return [
+            { id: 'fileId' as PortId, title: 'File ID', dataType: 'string' },
+            { id: 'deleted' as PortId, title: 'Deleted', dataType: 'boolean' },
+          ];
+        case 'signedUrl':
+          return [
+            { id: 'fileId' as PortId, title: 'File ID', dataType: 'string' },
+            {
+              id: 'url' as PortId,
+              title: 'URL',
+              dataType: 'string',
+              description: 'A temporary URL to the file that works without an API key, e.g. as the document URL of an OCR node.',
+            },
+          ];
+        case 'download':
+          return [
+            { id: 'fileId' as PortId, title: 'File ID', dataType: 'string' },
+            { id: 'data' as PortId, title: 'Data', dataType: 'binary' },
+          ];
+      }
+    },
+
+    getEditors(): EditorDefinition<MistralFilesNode>[] {
+      return [
+        {
+          type: 'dropdown',
+          label: 'Operation',
+          dataKey: 'operation',
+          options: Object.entries(operationLabels).map(([value, label]) => ({ value, label })),
+        },
+        {
+          type: 'string',
+          label: 'File ID',
+          dataKey: 'fileId',
+          useInputToggleDataKey: 'useFileIdInput',
+          hideIf: (data) => data.operation === 'list',
+        },
+        {
+          type: 'dropdown',
+          label: 'Purpose',
+          dataKey: 'purpose',
+          options: [
+            { value: '', label: 'Any' },
+            { value: 'ocr', label: 'OCR' },
+            { value: 'batch', label: 'Batch' },
+            { value: 'fine-tune', label: 'Fine-tuning' },
+          ],
+          hideIf: (data) => data.operation !== 'list',
+        },
+        {
+          type: 'string',
+          label: 'Search',
+          dataKey: 'search',
+          useInputToggleDataKey: 'useSearchInput',
+          helperMessage: 'Only lists files whose name contains this text.',
+          hideIf: (data) => data.operation !== 'list',
+        },
+        {
+          type: 'number',
+          label: 'Page',
+          dataKey: 'page',
+          min: 0,
+          step: 1,
+          allowEmpty: true,
+          helperMessage: 'Zero-based. Leave empty for the first page.',
+          hideIf: (data) => data.operation !== 'list',
+        },
+        {
+          type: 'number',
+          label: 'Page Size',
+          dataKey: 'pageSize',
+          min: 1,
+          step: 1,
+          allowEmpty: true,
+          hideIf: (data) => data.operation !== 'list',
+        },
+        {
+          type: 'number',
+          label: 'Expiry (hours)',
+          dataKey: 'expiryHours',
+          min: 1,
+          step: 1,
+          allowEmpty: true,
+          helperMessage: 'Leave empty for 24 hours.',
+          hideIf: (data) => data.operation !== 'signedUrl',
+        },
+        ...retryEditors<MistralFilesNode>(),
+        {
+          type: 'number',
+          label: 'Timeout (ms)',
+          dataKey: 'timeoutMs',
+          min: 0,
+          step: 1000,
+          allowEmpty: true,
+          helperMessage: 'Cancels the request if it takes longer than this, including downloading the file. Leave empty for no limit.',
+        },
+      ];
+    },
+
+    getUIData(): NodeUIData {
+      return {
+        contextMenuTitle: 'Mistral Files',
+        group: 'AI/Files (Mistral)',
+        infoBoxBody: `Lists, inspects, downloads or deletes files uploaded to Mistral, or gets a signed URL to one.`,
+        infoBoxTitle: 'Mistral Files Node',
+      };
+    },
+
+    getBody(data): string {
+      if (data.operation === 'list') {
+        return `${operationLabels.list}${data.purpose ? `\nPurpose: ${data.purpose}` : ''}`;
+      }
+      return `${operationLabels[data.operation]}: ${data.useFileIdInput ? '(input)' : data.fileId || '(not set)'}`;
+    },
+
+    async process(data, inputs: Inputs, context: InternalProcessContext): Promise<Outputs> {
+      const timeout = withTimeout(context.signal, data.timeoutMs);
+      const options = { ...applyRetryOverrides(getMistralRequestOptions(context), data), signal: timeout.signal };
+
+      try {
+        if (data.operation === 'list') {
+          const { data: files, total } = await listFiles({
+            ...options,
+            purpose: data.purpose || undefined,
+            search: (rivet.getInputOrData(data, inputs, 'search', 'string') ?? data.search).trim() || undefined,
+            page: data.page,
+            pageSize: data.pageSize,
+          });
+
+          return {
+            ['files' as PortId]: {
+              type: 'object[]',
+              value: files,
+            },
+            ['fileIds' as PortId]: {
+              type: 'string[]',
+              value: files.map((file) => file.id),
+            },
+            ['total' as PortId]: {
+              type: 'number',
+              value: total,
+            },
+          };
+        }
+
+        const fileId = (rivet.getInputOrData(data, inputs, 'fileId', 'string') ?? data.fileId).trim();
+        if (!fileId) {
+          throw new Error('No file id provided');
+        }
+
+        const output: Outputs = {
+          ['fileId' as PortId]: {
+            type: 'string',
+            value: fileId,
+          },
+        };
+
+        switch (data.operation) {
+          case 'retrieve':
+            output['file' as PortId] = { type: 'object', value: await retrieveFile(options, fileId) };
+            break;
+          case 'delete':
+            output['deleted' as PortId] = { type: 'boolean', value: (await deleteFile(options, fileId)).deleted };
+            break;
+          case 'signedUrl':
+            output['url' as PortId] = { type: 'string', value: await getSignedUrl(options, fileId, data.expiryHours) };
+            break;
+          case 'download': {
+            const blob = await downloadFile(options, fileId);
+            output['data' as PortId] = { type: 'binary', value: new Uint8Array(await blob.arrayBuffer()) };
+            break;
+          }
+        }
+
+        return output;
+      } finally {
+        timeout.dispose();
+      }
+    },
+  };
+
+  return rivet.pluginNodeDefinition(nodeImpl, 'Mistral Files');
+}
@@ -0,0 +1,428 @@
+import type {
+  ChartNode,
+  EditorDefinition,
+  Inputs,
+  InternalProcessContext,
+  NodeId,
+  NodeInputDefinition,
+  NodeOutputDefinition,
+  NodeUIData,
+  Outputs,
+  PluginNodeImpl,
+  PortId,
+  Rivet,
+} from '@ironclad/rivet-core';
+import {
+  createFimCompletion,
+  streamFimCompletion,
+  type FimCompletionOptions,
+} from '../impl/fimApi.js';
+import { withTimeout } from '../impl/mistralApi.js';
+import { getModel, getModelOptions, refreshModels, validateModel, type RegisteredModel } from '../impl/modelRegistry.js';
+import { calculateCost, formatPrice, getModelPrice } from '../impl/pricing.js';
+import { loadTokenizer } from '../impl/tokenizer.js';
+import {
+  applyRetryOverrides,
+  getMistralRequestOptions,
+  getPriceOverrides,
+  retryEditors,
+  type RetryOverrideData,
+} from '../impl/pluginConfig.js';
+
+export type MistralFimNode = ChartNode<'mistralFim', MistralFimNodeData>;
+
+export type MistralFimNodeData = RetryOverrideData & {
+  model: string;
+  useModelInput: boolean;
+  temperature: number;
+  useTemperatureInput: boolean;
+  topP: number;
+  useTopPInput: boolean;
+  maxTokens: number;
+  useMaxTokensInput: boolean;
+  minTokens?: number;
+  useMinTokensInput: boolean;
+  stop: string[];
+  useStopInput: boolean;
+  useStream: boolean;
+  useRandomSeed?: boolean;
+  randomSeed?: number;
+  currency: 'USD' | 'EUR';
+  // Limit for the whole request, including streaming; unset means no limit
+  timeoutMs?: number;
+};
+
+const isFimModel = (model: RegisteredModel) => model.capabilities.fim;
+
+export default function (rivet: typeof Rivet) {
+  const nodeImpl: PluginNodeImpl<MistralFimNode> = {
+    create(): MistralFimNode {
+      return {
+        id: rivet.newId<NodeId>(),
+        type: 'mistralFim',
+        title: 'Codestral FIM',
+        data: {
+          model: 'codestral-latest',
+          useModelInput: false,
+          temperature: 0,
+          useTemperatureInput: false,
+          topP: 1,
+          useTopPInput: false,
+          maxTokens: 1024,
+          useMaxTokensInput: false,
+          minTokens: undefined,
+          useMinTokensInput: false,
+          stop: [],
+          useStopInput: false,
+          useStream: true,
+          useRandomSeed: false,
+          randomSeed: undefined,
+          currency: 'USD',
+          maxRetries: undefined,
+          retryBaseDelayMs: undefined,
+          timeoutMs: undefined,
+        },
+        visualData: {
+          x: 0,
+          y: 0,
+          width: 300,
+        },
+      };
+    },
+
+    getInputDefinitions(data): NodeInputDefinition[] {
+      const inputs: NodeInputDefinition[] = [];
+
+      if (data.useModelInput) {
+        inputs.push({
+          id: 'model' as PortId,
+          title: 'Model',
+          dataType: 'string',
+          required: false,
+        });
+      }
+
+      inputs.push({
+        id: 'prompt' as PortId,
+        title: 'Prompt',
+        dataType: 'string',
+        required: true,
+        description: 'The code before the cursor.',
+      });
+
+      inputs.push({
+        id: 'suffix' as PortId,
+        title: 'Suffix',
+        dataType: 'string',
+        required: false,
+        description: 'The code after the cursor. The model generates what goes between the prompt and the suffix.',
+      });
+
+      if (data.useTemperatureInput) {
+        inputs.push({
+          dataType: 'number',
+          id: 'temperature' as PortId,
+          title: 'Temperature',
+        });
+      }
+
+      if (data.useTopPInput) {
+        inputs.push({
+          dataType: 'number',
+          id: 'topP' as PortId,
+          title: 'Top P',
+        });
+      }
+
+      if (data.useMaxTokensInput) {
+        inputs.push({
+          dataType: 'number',
+          id: 'maxTokens' as PortId,
+          title: 'Max Tokens',
+        });
+      }
+
+      if (data.useMinTokensInput) {
+        inputs.push({
+          dataType: 'number',
+          id: 'minTokens' as PortId,
+          title: 'Min Tokens',
+        });
+      }
+
+      if (data.useStopInput) {
+        inputs.push({
+          dataType: ['string', 'string[]'],
+          id: 'stop' as PortId,
+          title: 'Stop',
+        });
+      }
+
+      return inputs;
+    },
+
+    getOutputDefinitions(): NodeOutputDefinition[] {
+      return [
+        {
+          id: 'completion' as PortId,
+          title: 'Completion',
+          dataType: 'string',
+          description: 'The code to insert between the prompt and the suffix.',
+        },
+        {
+          id: 'code' as PortId,
+          title: 'Full Code',
+          dataType: 'string',
+          description: 'The prompt, the completion and the suffix joined together.',
+        },
+        {
+          id: 'tokenDetails' as PortId,
+          title: 'Token Details',
+          dataType: 'object',
+        },
+      ];
+    },
+
+    async getEditors(data, context): Promise<EditorDefinition<MistralFimNode>[]> {
+      await refreshModels(context);
+
+      return [
+        {
+          type: 'dropdown',
+          label: 'Model',
+          dataKey: 'model',
+          useInputToggleDataKey: 'useModelInput',
+          options: getModelOptions(isFimModel, data.model),
+        },
+        {
+          type: 'number',
+          label: 'Temperature',
+          dataKey: 'temperature',
+          useInputToggleDataKey: 'useTemperatureInput',
+          min: 0,
+          max: 1.5,
+          step: 0.1,
+        },
+        {
+          type: 'number',
+          label: 'Top P',
+          dataKey: 'topP',
+          useInputToggleDataKey: 'useTopPInput',
+          min: 0,
+          max: 1,
+          step: 0.1,
+        },
+        {
+          type: 'number',
+          label: 'Max Tokens',
+          dataKey: 'maxTokens',
+          useInputToggleDataKey: 'useMaxTokensInput',
+          min: 0,
+          step: 1,
+        },
+        {
+          type: 'number',
+          label: 'Min Tokens',
+          dataKey: 'minTokens',
+          useInputToggleDataKey: 'useMinTokensInput',
+          min: 0,
+          step: 1,
+          allowEmpty: true,
+        },
+        {
+          type: 'stringList',
+          label: 'Stop Sequences',
+          dataKey: 'stop',
+          useInputToggleDataKey: 'useStopInput',
+          placeholder: 'Stop sequence',
+        },
+        {
+          type: 'toggle',
+          label: 'Stream Responses',
+          dataKey: 'useStream',
+        },
+        {
+          type: 'toggle',
+          label: 'Use Random Seed',
+          dataKey: 'useRandomSeed',
+        },
+        {
+          type: 'number',
+          label: 'Random Seed',
+          dataKey: 'randomSeed',
+          min: 0,
+          step: 1,
+        },
+        ...retryEditors<MistralFimNode>(),
+        {
+          type: 'number',
+          label: 'Timeout (ms)',
+          dataKey: 'timeoutMs',
+          min: 0,
+          step: 1000,
+          allowEmpty: true,
+          helperMessage: 'Cancels the request if it takes longer than this, including streaming. A cancelled stream returns the code received so far. Leave empty for no limit.',
+        },
+        {
+          type: 'dropdown',
+          label: 'Currency',
+          dataKey: 'currency',
+          options: [
+            { value: 'USD', label: 'USD ($)' },
+            { value: 'EUR', label: 'EUR (€)' },
+          ],
+        },
+      ];
+    },
+
+    getUIData(): NodeUIData {
+      return {
+        contextMenuTitle: 'Codestral FIM',
+        group: 'AI/Chat (Mistral)',
+        infoBoxBody: `Makes a fill-in-the-middle call to Codestral, generating the code that belongs between a prompt and a suffix.`,
+        infoBoxTitle: 'Codestral FIM Node',
+      };
+    },
+
+    getBody(data): string {
+      const price = getModelPrice(data.model, data.currency);
+      return `Model: ${data.useModelInput ? '(input)' : getModel(data.model)?.displayName ?? data.model}
+Temperature: ${data.temperature}
+Max Tokens: ${data.maxTokens}
+${formatPrice(price.input, data.currency)}/1M prompt tokens
+${formatPrice(price.output, data.currency)}/1M completion tokens`;
+    },
+
+    async process(data, inputs: Inputs, context: InternalProcessContext): Promise<Outputs> {
+      const model = rivet.getInputOrData(data, inputs, 'model', 'string') ?? data.model;
+      const temperature = rivet.getInputOrData(data, inputs, 'temperature', 'number') ?? data.temperature;
+      const topP = rivet.getInputOrData(data, inputs, 'topP', 'number') ?? data.topP;
+      const maxTokens = rivet.getInputOrData(data, inputs, 'maxTokens', 'number') ?? data.maxTokens;
+      const minTokens = data.useMinTokensInput
+        ? rivet.coerceTypeOptional(inputs['minTokens' as PortId], 'number')
+        : data.minTokens;
+      const stop = data.useStopInput
+        ? rivet.coerceTypeOptional(inputs['stop' as PortId], 'string[]') ?? []
+        : data.stop;
+
+      const prompt = rivet.coerceTypeOptional(inputs['prompt' as PortId], 'string');
+      if (prompt === undefined) {
+        throw new Error('No prompt provided');
+      }
+      const suffix = rivet.coerceTypeOptional(inputs['suffix' as PortId], 'string') ?? '';
+
+      await refreshModels(context);
+      validateModel(model, { capabilities: ['fim'], maxTokens });
+      if (minTokens !== undefined && minTokens > maxTokens) {
+        throw new Error(`Min tokens (${minTokens}) is more than max tokens (${maxTokens}). Lower Min Tokens or raise Max Tokens.`);
+      }
+
+      let retries = 0;
+      const timeout = withTimeout(context.signal, data.timeoutMs);
+      const requestOptions: FimCompletionOptions = {
+        ...applyRetryOverrides(getMistralRequestOptions(context), data),
+        onRetry: () => retries++,
+        signal: timeout.signal,
+        model,
+        prompt,
+        suffix,
+        temperature,
+        topP,
+        maxTokens,
+        minTokens,
+        stop: stop.filter((sequence) => sequence !== ''),
+        random_seed: data.useRandomSeed ? data.randomSeed : undefined,
+      };
+
+      const output: Outputs = {};
+      let completion = '';
+      let usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number } | undefined;
+
+      const setCompletionOutputs = () => {
+        output['completion' as PortId] = {
+          type: 'string',
+          value: completion,
+        };
+        output['code' as PortId] = {
+          type: 'string',
+          value: prompt + completion + suffix,
+        };
+      };
+
+      // A cancelled stream keeps whatever was generated so far
+      let aborted = false;
+      try {
+        if (data.useStream) {
+          try {
+            for await (const chunk of streamFimCompletion(requestOptions)) {
+              if (chunk.usage?.total_tokens) {
+                usage = chunk.usage;
+              }
+
+              const content = chunk.choices[0]?.delta?.content;
+              if (content) {
+                completion += content;
+                setCompletionOutputs();
+                context.onPartialOutputs?.(output);
+              }
+            }
+          } catch (error) {
+            if (!requestOptions.signal?.aborted) {
+              throw error;
+            }
+            aborted = true;
+          }
+        } else {
+          const response = await createFimCompletion(requestOptions);
+          completion = response.choices[0]?.message?.content ?? '';
+          usage = response.usage;
+        }
+      } finally {
+        timeout.dispose();
+      }
+
+      setCompletionOutputs();
+
+      let note: string | undefined;
+      if (!usage) {
+        // Count locally instead: [PREFIX] and [SUFFIX] control tokens plus the beginning of sequence
+        const tokenizer = await loadTokenizer(context, model);
+        const promptTokens = 3 + tokenizer.countTokens(prompt) + tokenizer.countTokens(suffix);
+        const completionTokens = tokenizer.countTokens(completion);
+        usage = {
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          total_tokens: promptTokens + completionTokens,
+        };
+        note = tokenizer.exact
+          ? 'Token details counted locally - the API did not report usage'
+          : 'Token details estimated - the API did not report usage. Configure a tokenizer file for exact counts';
+      }
+
+      const totalCostCents = calculateCost(
+        model,
+        { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens },
+        data.currency,
+        getPriceOverrides(context),
+      );
+
+      output['tokenDetails' as PortId] = {
+        type: 'object',
+        value: {
+          ...(note ? { note } : {}),
+          prompt: usage.prompt_tokens,
+          completion: usage.completion_tokens,
+          total: usage.total_tokens,
+          estimatedCostCents: totalCostCents,
+          currency: data.currency,
+          attempts: retries + 1,
+          ...(aborted ? { finish_reason: 'aborted' } : {}),
+        },
+      };
+
+      return output;
+    },
+  };
+
+  return rivet.pluginNodeDefinition(nodeImpl, 'Codestral FIM');
+}
@@ -0,0 +1,245 @@
+import type {
+  ChartNode,
+  EditorDefinition,
+  Inputs,
+  InternalProcessContext,
+  NodeId,
+  NodeInputDefinition,
+  NodeOutputDefinition,
+  NodeUIData,
+  Outputs,
+  PluginNodeImpl,
+  PortId,
+  Rivet,
+} from '@ironclad/rivet-core';
+import {
+  archiveFineTunedModel,
+  deleteFineTunedModel,
+  unarchiveFineTunedModel,
+  updateFineTunedModel,
+} from '../impl/fineTuningApi.js';
+import { retrieveModel } from '../impl/modelsApi.js';
+import { refreshModels } from '../impl/modelRegistry.js';
+import {
+  applyRetryOverrides,
+  getMistralRequestOptions,
+  retryEditors,
+  type RetryOverrideData,
+} from '../impl/pluginConfig.js';
+
+export type MistralFineTunedModelNode = ChartNode<'mistralFineTunedModel', MistralFineTunedModelNodeData>;
+
+export type MistralFineTunedModelOperation = 'retrieve' | 'update' | 'archive' | 'unarchive' | 'delete';
+
+export type MistralFineTunedModelNodeData = RetryOverrideData & {
+  operation: MistralFineTunedModelOperation;
+  modelId: string;
+  useModelIdInput: boolean;
+  // Update only; empty leaves the current value
+  name: string;
+  useNameInput: boolean;
+  description: string;
+  useDescriptionInput: boolean;
+};
+
+const operationLabels: Record<MistralFineTunedModelOperation, string> = {
+  retrieve: 'Get model',
+  update: 'Update model',
+  archive: 'Archive model',
+  unarchive: 'Unarchive model',
+  delete: 'Delete model',
+};
+
+export default function (rivet: typeof Rivet) {
+  const nodeImpl: PluginNodeImpl<MistralFineTunedModelNode> = {
+    create(): MistralFineTunedModelNode {
+      return {
+        id: rivet.newId<NodeId>(),
+        type: 'mistralFineTunedModel',
+        title: 'Mistral Fine-Tuned Model',
+        data: {
+          operation: 'retrieve',
+          modelId: '',
+          useModelIdInput: true,
+          name: '',
+          useNameInput: false,
+          description: '',
+          useDescriptionInput: false,
+          maxRetries: undefined,
+          retryBaseDelayMs: undefined,
+        },
+        visualData: {
+          x: 0,
+          y: 0,
+          width: 250,
+        },
+      };
+    },
+
+    getInputDefinitions(data): NodeInputDefinition[] {
+      const inputs: NodeInputDefinition[] = [];
+
+      if (data.useModelIdInput) {
+        inputs.push({
+          id: 'modelId' as PortId,
+          title: 'Model ID',
+          dataType: 'string',
+          required: true,
+        });
+      }
+
+      if (data.operation === 'update' && data.useNameInput) {
+        inputs.push({
+          id: 'name' as PortId,
+          title: 'Name',
+          dataType: 'string',
+          required: false,
+        });
+      }
+
+      if (data.operation === 'update' && data.useDescriptionInput) {
+        inputs.push({
+          id: 'description' as PortId,
+          title: 'Description',
+          dataType: 'string',
+          required: false,
+        });
+      }
+
+      return inputs;
+    },
+
+    getOutputDefinitions(data): NodeOutputDefinition[] {
+      const outputs: NodeOutputDefinition[] = [
+        {
+          id: 'modelId' as PortId,
+          title: 'Model ID',
+          dataType: 'string',
+        },
+      ];
+
+      switch (data.operation) {
+        case 'retrieve':
+        case 'update':
+          outputs.push({
+            id: 'model' as PortId,
+            title: 'Model',
+            dataType: 'object',
+            description: 'The model\'s name, description, base model, job, capabilities and whether it is archived.',
+          });
+          break;
+        case 'archive':
+        case 'unarchive':
+          outputs.push({ id: 'archived' as PortId, title: 'Archived', dataType: 'boolean' });
+          break;
+        case 'delete':
+          outputs.push({ id: 'deleted' as PortId, title: 'Deleted', dataType: 'boolean' });
+          break;
+      }
+
+      return outputs;
+    },
+
+    getEditors(): EditorDefinition<MistralFineTunedModelNode>[] {
+      return [
+        {
+          type: 'dropdown',
+          label: 'Operation',
+          dataKey: 'operation',
+          options: Object.entries(operationLabels).map(([value, label]) => ({ value, label })),
+        },
+        {
+          type: 'string',
+          label: 'Model ID',
+          dataKey: 'modelId',
+          useInputToggleDataKey: 'useModelIdInput',
+          helperMessage: 'The ft: id of the fine-tuned model.',
+        },
+        {
+          type: 'string',
+          label: 'Name',
+          dataKey: 'name',
+          useInputToggleDataKey: 'useNameInput',
+          helperMessage: 'Leave empty to keep the current name.',
+          hideIf: (data) => data.operation !== 'update',
+        },
+        {
+          type: 'code',
+          label: 'Description',
+          dataKey: 'description',
+          language: 'markdown',
+          useInputToggleDataKey: 'useDescriptionInput',
+          hideIf: (data) => data.operation !== 'update',
+        },
+        ...retryEditors<MistralFineTunedModelNode>(),
+      ];
+    },
+
+    getUIData(): NodeUIData {
+      return {
+        contextMenuTitle: 'Mistral Fine-Tuned Model',
+        group: 'AI/Fine-tuning (Mistral)',
+        infoBoxBody: `Gets, renames, archives, unarchives or deletes a fine-tuned Mistral model. Archived models are hidden from model lists until they are unarchived.`,
+        infoBoxTitle: 'Mistral Fine-Tuned Model Node',
+      };
+    },
+
+    getBody(data): string {
+      return `${operationLabels[data.operation]}: ${data.useModelIdInput ? '(input)' : data.modelId || '(not set)'}`;
+    },
+
+    async process(data, inputs: Inputs, context: InternalProcessContext): Promise<Outputs> {
+      const modelId = (rivet.getInputOrData(data, inputs, 'modelId', 'string') ?? data.modelId).trim();
+      if (!modelId) {
+        throw new Error('No model id provided');
+      }
+      if (data.operation !== 'retrieve' && !modelId.startsWith('ft:')) {
+        throw new Error(`"${modelId}" is not a fine-tuned model. Only models with an ft: id can be changed.`);
+      }
+
+      const options = applyRetryOverrides(getMistralRequestOptions(context), data);
+      const output: Outputs = {
+        ['modelId' as PortId]: {
+          type: 'string',
+          value: modelId,
+        },
+      };
+
+      switch (data.operation) {
+        case 'retrieve':
+          output['model' as PortId] = { type: 'object', value: await retrieveModel(options, modelId) };
+          return output;
+        case 'update': {
+          const name = (rivet.getInputOrData(data, inputs, 'name', 'string') ?? data.name).trim();
+          const description = (rivet.getInputOrData(data, inputs, 'description', 'string') ?? data.description).trim();
+          if (!name && !description) {
+            throw new Error('Nothing to update. Set a name or a description.');
+          }
+          output['model' as PortId] = {
+            type: 'object',
+            value: await updateFineTunedModel(options, modelId, {
+              name: name || undefined,
+              description: description || undefined,
+            }),
+          };
+          break;
+        }
+        case 'archive':
+          output['archived' as PortId] = { type: 'boolean', value: (await archiveFineTunedModel(options, modelId)).archived };
+          break;
+        case 'unarchive':
+          output['archived' as PortId] = { type: 'boolean', value: (await unarchiveFineTunedModel(options, modelId)).archived };
+          break;
+        case 'delete':
+          output['deleted' as PortId] = { type: 'boolean', value: (await deleteFineTunedModel(options, modelId)).deleted };
+          break;
+      }
+
+      // Keeps the chat node's model list in step with the change
+      await refreshModels(context, { force: true });
+      return output;
+    },
+  };
+
+  return rivet.pluginNodeDefinition(nodeImpl, 'Mistral Fine-Tuned Model');
+}
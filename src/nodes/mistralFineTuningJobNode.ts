@@ -0,0 +1,398 @@
+import type {
+  ChartNode,
+  DataValue,
+  EditorDefinition,
+  Inputs,
+  InternalProcessContext,
+  NodeId,
+  NodeInputDefinition,
+  NodeOutputDefinition,
+  NodeUIData,
+  Outputs,
+  PluginNodeImpl,
+  PortId,
+  Rivet,
+} from '@ironclad/rivet-core';
+import {
+  createFineTuningJob,
+  waitForFineTuningJob,
+  type FineTuningJob,
+  type WandbIntegration,
+} from '../impl/fineTuningApi.js';
+import { withTimeout } from '../impl/mistralApi.js';
+import { getModel, getModelOptions, refreshModels, refreshModelsIfMissing } from '../impl/modelRegistry.js';
+import {
+  applyRetryOverrides,
+  getMistralConfig,
+  getMistralRequestOptions,
+  retryEditors,
+  type RetryOverrideData,
+} from '../impl/pluginConfig.js';
+
+export type MistralFineTuningJobNode = ChartNode<'mistralFineTuningJob', MistralFineTuningJobNodeData>;
+
+export type MistralFineTuningJobNodeData = RetryOverrideData & {
+  model: string;
+  useModelInput: boolean;
+  // Becomes part of the fine-tuned model's id: ft:<model>:<suffix>:...
+  suffix: string;
+  useSuffixInput: boolean;
+  // Hyperparameters; unset means Mistral's default for the model
+  trainingSteps?: number;
+  learningRate?: number;
+  weightDecay?: number;
+  warmupFraction?: number;
+  epochs?: number;
+  seqLen?: number;
+  // Off means the job waits to be started with a Mistral Fine-Tuning Jobs node once validated
+  autoStart: boolean;
+  // Reports metrics to Weights & Biases when set
+  wandbProject: string;
+  wandbName: string;
+  wandbRunName: string;
+  // Wait for the job and output the fine-tuned model, rather than only creating it
+  waitForCompletion: boolean;
+  pollIntervalSeconds: number;
+  // Limit for the whole node, including waiting for completion; unset means no limit
+  timeoutMs?: number;
+};
+
+export default function (rivet: typeof Rivet) {
+  const nodeImpl: PluginNodeImpl<MistralFineTuningJobNode> = {
+    create(): MistralFineTuningJobNode {
+      return {
+        id: rivet.newId<NodeId>(),
+        type: 'mistralFineTuningJob',
+        title: 'Mistral Fine-Tuning Job',
+        data: {
+          model: 'open-mistral-7b',
+          useModelInput: false,
+          suffix: '',
+          useSuffixInput: false,
+          trainingSteps: undefined,
+          learningRate: undefined,
+          weightDecay: undefined,
+          warmupFraction: undefined,
+          epochs: undefined,
+          seqLen: undefined,
+          autoStart: true,
+          wandbProject: '',
+          wandbName: '',
+          wandbRunName: '',
+          waitForCompletion: false,
+          pollIntervalSeconds: 60,
+          maxRetries: undefined,
+          retryBaseDelayMs: undefined,
+          timeoutMs: undefined,
+        },
+        visualData: {
+          x: 0,
+          y: 0,
+          width: 300,
+        },
+      };
+    },
+
+    getInputDefinitions(data): NodeInputDefinition[] {
+      const inputs: NodeInputDefinition[] = [];
+
+      if (data.useModelInput) {
+        inputs.push({
+          id: 'model' as PortId,
+          title: 'Model',
+          dataType: 'string',
+          required: false,
+        });
+      }
+
+      inputs.push(
+        {
+          id: 'trainingFiles' as PortId,
+          title: 'Training Files',
+          dataType: ['string', 'string[]'],
+          required: true,
+          description: 'The ids of JSONL files uploaded with the fine-tune purpose.',
+        },
+        {
+          id: 'validationFiles' as PortId,
+          title: 'Validation Files',
+          dataType: ['string', 'string[]'],
+          required: false,
+          description: 'Optional ids of JSONL files to compute validation metrics on.',
+        },
+      );
+
+      if (data.useSuffixInput) {
+        inputs.push({
+          id: 'suffix' as PortId,
+          title: 'Suffix',
+          dataType: 'string',
+          required: false,
+        });
+      }
+
+      return inputs;
+    },
+
+    getOutputDefinitions(data): NodeOutputDefinition[] {
+      const outputs: NodeOutputDefinition[] = [
+        {
+          id: 'jobId' as PortId,
+          title: 'Job ID',
+          dataType: 'string',
+          description: 'Connect this to a Mistral Fine-Tuning Jobs node to follow the job later.',
+        },
+        {
+          id: 'status' as PortId,
+          title: 'Status',
+          dataType: 'string',
+        },
+        {
+          id: 'job' as PortId,
+          title: 'Job',
+          dataType: 'object',
+          description: 'The full job, including its estimated cost and duration.',
+        },
+      ];
+
+      if (data.waitForCompletion) {
+        outputs.push({
+          id: 'fineTunedModel' as PortId,
+          title: 'Fine-Tuned Model',
+          dataType: 'string',
+          description: 'The ft: model id, which can be used as the model of a Mistral Chat node. Not run if the job did not succeed.',
+        });
+      }
+
+      return outputs;
+    },
+
+    async getEditors(data, context): Promise<EditorDefinition<MistralFineTuningJobNode>[]> {
+      await refreshModels(context);
+
+      return [
+        {
+          type: 'dropdown',
+          label: 'Base Model',
+          dataKey: 'model',
+          useInputToggleDataKey: 'useModelInput',
+          options: getModelOptions((model) => model.capabilities.chat && !model.fineTuned, data.model),
+        },
+        {
+          type: 'string',
+          label: 'Suffix',
+          dataKey: 'suffix',
+          useInputToggleDataKey: 'useSuffixInput',
+          helperMessage: 'Added to the fine-tuned model\'s id, to tell it apart. At most 18 characters.',
+        },
+        {
+          type: 'number',
+          label: 'Training Steps',
+          dataKey: 'trainingSteps',
+          min: 1,
+          step: 1,
+          allowEmpty: true,
+        },
+        {
+          type: 'number',
+          label: 'Epochs',
+          dataKey: 'epochs',
+          min: 0,
+          step: 0.1,
+          allowEmpty: true,
+          helperMessage: 'An alternative to Training Steps.',
+        },
+        {
+          type: 'number',
+          label: 'Learning Rate',
+          dataKey: 'learningRate',
+          min: 0,
+          step: 0.00001,
+          allowEmpty: true,
+        },
+        {
+          type: 'number',
+          label: 'Weight Decay',
+          dataKey: 'weightDecay',
+          min: 0,
+          step: 0.01,
+          allowEmpty: true,
+        },
+        {
+          type: 'number',
+          label: 'Warmup Fraction',
+          dataKey: 'warmupFraction',
+          min: 0,
+          max: 1,
+          step: 0.01,
+          allowEmpty: true,
+        },
+        {
+          type: 'number',
+          label: 'Sequence Length',
+          dataKey: 'seqLen',
+          min: 1,
+          step: 1,
+          allowEmpty: true,
+        },
+        {
+          type: 'toggle',
+          label: 'Auto Start',
+          dataKey: 'autoStart',
+          helperMessage: 'Starts training once the files are validated. Turn off to check the estimated cost first and start the job with a Mistral Fine-Tuning Jobs node.',
+        },
+        {
+          type: 'string',
+          label: 'W&B Project',
+          dataKey: 'wandbProject',
+          helperMessage: 'Reports training metrics to this Weights & Biases project. Needs the Weights & Biases API Key plugin setting.',
+        },
+        {
+          type: 'string',
+          label: 'W&B Name',
+          dataKey: 'wandbName',
+          hideIf: (data) => !data.wandbProject,
+        },
+        {
+          type: 'string',
+          label: 'W&B Run Name',
+          dataKey: 'wandbRunName',
+          hideIf: (data) => !data.wandbProject,
+        },
+        {
+          type: 'toggle',
+          label: 'Wait for Completion',
+          dataKey: 'waitForCompletion',
+          helperMessage: 'Waits for the job and outputs the fine-tuned model. Training can take hours, so usually the job is followed with a Mistral Fine-Tuning Jobs node instead.',
+        },
+        {
+          type: 'number',
+          label: 'Poll Interval (seconds)',
+          dataKey: 'pollIntervalSeconds',
+          min: 1,
+          step: 1,
+          hideIf: (data) => !data.waitForCompletion,
+        },
+        ...retryEditors<MistralFineTuningJobNode>(),
+        {
+          type: 'number',
+          label: 'Timeout (ms)',
+          dataKey: 'timeoutMs',
+          min: 0,
+          step: 1000,
+          allowEmpty: true,
+          helperMessage: 'Gives up if creating and waiting for the job take longer than this. The job itself keeps running and can be followed with a Mistral Fine-Tuning Jobs node. Leave empty for no limit.',
+        },
+      ];
+    },
+
+    getUIData(): NodeUIData {
+      return {
+        contextMenuTitle: 'Mistral Fine-Tuning Job',
+        group: 'AI/Fine-tuning (Mistral)',
+        infoBoxBody: `Creates a Mistral fine-tuning job from uploaded training files and, optionally, waits for it and outputs the fine-tuned model's ft: id.`,
+        infoBoxTitle: 'Mistral Fine-Tuning Job Node',
+      };
+    },
+
+    getBody(data): string {
+      return `Base model: ${data.useModelInput ? '(input)' : getModel(data.model)?.displayName ?? data.model}
+${data.useSuffixInput ? 'Suffix: (input)\n' : data.suffix ? `Suffix: ${data.suffix}\n` : ''}${data.autoStart ? 'Starts automatically' : 'Waits to be started'}${data.waitForCompletion ? `\nPolls every ${data.pollIntervalSeconds}s` : ''}`;
+    },
+
+    async process(data, inputs: Inputs, context: InternalProcessContext): Promise<Outputs> {
+      const model = rivet.getInputOrData(data, inputs, 'model', 'string') ?? data.model;
+      const suffix = (rivet.getInputOrData(data, inputs, 'suffix', 'string') ?? data.suffix).trim();
+
+      const trainingFiles = getFileIds(rivet, inputs['trainingFiles' as PortId]);
+      if (!trainingFiles.length) {
+        throw new Error('No training files provided. Upload a JSONL file with the fine-tune purpose and connect its file id.');
+      }
+      const validationFiles = getFileIds(rivet, inputs['validationFiles' as PortId]);
+
+      let integrations: WandbIntegration[] | undefined;
+      if (data.wandbProject.trim()) {
+        const apiKey = getMistralConfig(context, 'mistralWandbApiKey');
+        if (!apiKey) {
+          throw new Error('A W&B project is set, but no Weights & Biases API key is configured. Set it in the plugin settings or the WANDB_API_KEY environment variable.');
+        }
+        integrations = [{
+          type: 'wandb',
+          project: data.wandbProject.trim(),
+          name: data.wandbName.trim() || undefined,
+          run_name: data.wandbRunName.trim() || undefined,
+          api_key: apiKey,
+        }];
+      }
+
+      const timeout = withTimeout(context.signal, data.timeoutMs);
+      const options = { ...applyRetryOverrides(getMistralRequestOptions(context), data), signal: timeout.signal };
+
+      try {        let job = await createFineTuningJob({
+          ...options,
+          model,
+          trainingFiles,
+          validationFiles,
+          hyperparameters: {
+            training_steps: data.trainingSteps,
+            learning_rate: data.learningRate,
+            weight_decay: data.weightDecay,
+            warmup_fraction: data.warmupFraction,
+            epochs: data.epochs,
+            seq_len: data.seqLen,
+          },
+          suffix,
+          integrations,
+          autoStart: data.autoStart,
+        });
+        context.trace(`Created Mistral fine-tuning job ${job.id} for ${model}`);
+
+        const getOutputs = (job: FineTuningJob): Outputs => ({
+          ['jobId' as PortId]: {
+            type: 'string',
+            value: job.id,
+          },
+          ['status' as PortId]: {
+            type: 'string',
+            value: job.status,
+          },
+          ['job' as PortId]: {
+            type: 'object',
+            value: job,
+          },
+        });
+
+        if (!data.waitForCompletion) {
+          return getOutputs(job);
+        }
+
+        job = await waitForFineTuningJob(options, job.id, data.pollIntervalSeconds * 1000, (update) => {
+          context.onPartialOutputs?.(getOutputs(update));
+          context.trace(`Fine-tuning job ${update.id}: ${update.status}`);
+        });
+
+        if (job.status === 'SUCCESS' && job.fine_tuned_model) {
+          // So the new model shows up in the chat node's model list
+          await refreshModelsIfMissing(context, job.fine_tuned_model);
+        }
+
+        return {
+          ...getOutputs(job),
+          ['fineTunedModel' as PortId]: job.status === 'SUCCESS' && job.fine_tuned_model
+            ? { type: 'string', value: job.fine_tuned_model }
+            : { type: 'control-flow-excluded', value: undefined },
+        };
+      } finally {
+        timeout.dispose();
+      }
+    },
+  };
+
+  return rivet.pluginNodeDefinition(nodeImpl, 'Mistral Fine-Tuning Job');
+}
+
+function getFileIds(rivet: typeof Rivet, input: DataValue | undefined): string[] {
+  return (rivet.coerceTypeOptional(input, 'string[]') ?? [])
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
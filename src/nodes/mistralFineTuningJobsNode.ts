@@ -0,0 +1,338 @@
+import type {
+  ChartNode,
+  EditorDefinition,
+  Inputs,
+  InternalProcessContext,
+  NodeId,
+  NodeInputDefinition,
+  NodeOutputDefinition,
+  NodeUIData,
+  Outputs,
+  PluginNodeImpl,
+  PortId,
+  Rivet,
+} from '@ironclad/rivet-core';
+import {
+  cancelFineTuningJob,
+  getFineTuningJob,
+  isFineTuningJobFinished,
+  listFineTuningJobs,
+  startFineTuningJob,
+  type FineTuningJobStatus,
+} from '../impl/fineTuningApi.js';
+import { refreshModelsIfMissing } from '../impl/modelRegistry.js';
+import {
+  applyRetryOverrides,
+  getMistralRequestOptions,
+  retryEditors,
+  type RetryOverrideData,
+} from '../impl/pluginConfig.js';
+
+export type MistralFineTuningJobsNode = ChartNode<'mistralFineTuningJobs', MistralFineTuningJobsNodeData>;
+
+export type MistralFineTuningJobsOperation = 'list' | 'get' | 'cancel' | 'start';
+
+export type MistralFineTuningJobsNodeData = RetryOverrideData & {
+  operation: MistralFineTuningJobsOperation;
+  jobId: string;
+  useJobIdInput: boolean;
+  // List filters; empty means any
+  model: string;
+  status: FineTuningJobStatus | '';
+  suffix: string;
+  createdByMe: boolean;
+  page?: number;
+  pageSize?: number;
+};
+
+const operationLabels: Record<MistralFineTuningJobsOperation, string> = {
+  list: 'List jobs',
+  get: 'Get job',
+  cancel: 'Cancel job',
+  start: 'Start job',
+};
+
+const statuses: FineTuningJobStatus[] = [
+  'QUEUED',
+  'STARTED',
+  'VALIDATING',
+  'VALIDATED',
+  'RUNNING',
+  'FAILED_VALIDATION',
+  'FAILED',
+  'SUCCESS',
+  'CANCELLATION_REQUESTED',
+  'CANCELLED',
+];
+
+export default function (rivet: typeof Rivet) {
+  const nodeImpl: PluginNodeImpl<MistralFineTuningJobsNode> = {
+    create(): MistralFineTuningJobsNode {
+      return {
+        id: rivet.newId<NodeId>(),
+        type: 'mistralFineTuningJobs',
+        title: 'Mistral Fine-Tuning Jobs',
+        data: {
+          operation: 'get',
+          jobId: '',
+          useJobIdInput: true,
+          model: '',
+          status: '',
+          suffix: '',
+          createdByMe: false,
+          page: undefined,
+          pageSize: undefined,
+          maxRetries: undefined,
+          retryBaseDelayMs: undefined,
+        },
+        visualData: {
+          x: 0,
+          y: 0,
+          width: 250,
+        },
+      };
+    },
+
+    getInputDefinitions(data): NodeInputDefinition[] {
+      return data.operation !== 'list' && data.useJobIdInput
+        ? [{ id: 'jobId' as PortId, title: 'Job ID', dataType: 'string', required: true }]
+        : [];
+    },
+
+    getOutputDefinitions(data): NodeOutputDefinition[] {
+      if (data.operation === 'list') {
+        return [
+          {
+            id: 'jobs' as PortId,
+            title: 'Jobs',
+            dataType: 'object[]',
+          },
+          {
+            id: 'jobIds' as PortId,
+            title: 'Job IDs',
+            dataType: 'string[]',
+          },
+          {
+            id: 'total' as PortId,
+            title: 'Total',
+            dataType: 'number',
+            description: 'The number of matching jobs across all pages.',
+          },
+        ];
+      }
+
+      const outputs: NodeOutputDefinition[] = [
+        {
+          id: 'jobId' as PortId,
+          title: 'Job ID',
+          dataType: 'string',
+        },
+        {
+          id: 'status' as PortId,
+          title: 'Status',
+          dataType: 'string',
+          description: 'QUEUED, STARTED, VALIDATING, VALIDATED, RUNNING, FAILED_VALIDATION, FAILED, SUCCESS, CANCELLATION_REQUESTED or CANCELLED.',
+        },
+        {
+          id: 'job' as PortId,
+          title: 'Job',
+          dataType: 'object',
+        },
+      ];
+
+      if (data.operation === 'get') {
+        outputs.push(
+          {
+            id: 'finished' as PortId,
+            title: 'Finished',
+            dataType: 'boolean',
+            description: 'True once the job has stopped, whether or not it succeeded.',
+          },
+          {
+            id: 'fineTunedModel' as PortId,
+            title: 'Fine-Tuned Model',
+            dataType: 'string',
+            description: 'The ft: model id, which can be used as the model of a Mistral Chat node. Not run until the job has succeeded.',
+          },
+          {
+            id: 'metrics' as PortId,
+            title: 'Metrics',
+            dataType: 'object[]',
+            description: 'The step number, training loss, validation loss and validation token accuracy of each checkpoint.',
+          },
+        );
+      }
+
+      return outputs;
+    },
+
+    getEditors(): EditorDefinition<MistralFineTuningJobsNode>[] {
+      return [
+        {
+          type: 'dropdown',
+          label: 'Operation',
+          dataKey: 'operation',
+          options: Object.entries(operationLabels).map(([value, label]) => ({ value, label })),
+        },
+        {
+          type: 'string',
+          label: 'Job ID',
+          dataKey: 'jobId',
+          useInputToggleDataKey: 'useJobIdInput',
+          hideIf: (data) => data.operation === 'list',
+        },
+        {
+          type: 'string',
+          label: 'Model',
+          dataKey: 'model',
+          helperMessage: 'Only lists jobs for this base model.',
+          hideIf: (data) => data.operation !== 'list',
+        },
+        {
+          type: 'dropdown',
+          label: 'Status',
+          dataKey: 'status',
+          options: [{ value: '', label: 'Any' }, ...statuses.map((status) => ({ value: status, label: status }))],
+          hideIf: (data) => data.operation !== 'list',
+        },
+        {
+          type: 'string',
+          label: 'Suffix',
+          dataKey: 'suffix',
+          hideIf: (data) => data.operation !== 'list',
+        },
+        {
+          type: 'toggle',
+          label: 'Created by Me',
+          dataKey: 'createdByMe',
+          hideIf: (data) => data.operation !== 'list',
+        },
+        {
+          type: 'number',
+          label: 'Page',
+          dataKey: 'page',
+          min: 0,
+          step: 1,
+          allowEmpty: true,
+          helperMessage: 'Zero-based. Leave empty for the first page.',
+          hideIf: (data) => data.operation !== 'list',
+        },
+        {
+          type: 'number',
+          label: 'Page Size',
+          dataKey: 'pageSize',
+          min: 1,
+          step: 1,
+          allowEmpty: true,
+          hideIf: (data) => data.operation !== 'list',
+        },
+        ...retryEditors<MistralFineTuningJobsNode>(),
+      ];
+    },
+
+    getUIData(): NodeUIData {
+      return {
+        contextMenuTitle: 'Mistral Fine-Tuning Jobs',
+        group: 'AI/Fine-tuning (Mistral)',
+        infoBoxBody: `Lists Mistral fine-tuning jobs, checks on one and its metrics, or cancels or starts it.`,
+        infoBoxTitle: 'Mistral Fine-Tuning Jobs Node',
+      };
+    },
+
+    getBody(data): string {
+      if (data.operation === 'list') {
+        return `${operationLabels.list}${data.model ? `\nModel: ${data.model}` : ''}${data.status ? `\nStatus: ${data.status}` : ''}`;
+      }
+      return `${operationLabels[data.operation]}: ${data.useJobIdInput ? '(input)' : data.jobId || '(not set)'}`;
+    },
+
+    async process(data, inputs: Inputs, context: InternalProcessContext): Promise<Outputs> {
+      const options = applyRetryOverrides(getMistralRequestOptions(context), data);
+
+      if (data.operation === 'list') {
+        const { data: jobs, total } = await listFineTuningJobs({
+          ...options,
+          model: data.model.trim() || undefined,
+          status: data.status || undefined,
+          suffix: data.suffix.trim() || undefined,
+          createdByMe: data.createdByMe,
+          page: data.page,
+          pageSize: data.pageSize,
+        });
+
+        return {
+          ['jobs' as PortId]: {
+            type: 'object[]',
+            value: jobs,
+          },
+          ['jobIds' as PortId]: {
+            type: 'string[]',
+            value: jobs.map((job) => job.id),
+          },
+          ['total' as PortId]: {
+            type: 'number',
+            value: total,
+          },
+        };
+      }
+
+      const jobId = (rivet.getInputOrData(data, inputs, 'jobId', 'string') ?? data.jobId).trim();
+      if (!jobId) {
+        throw new Error('No fine-tuning job id provided');
+      }
+
+      const job = data.operation === 'cancel'
+        ? await cancelFineTuningJob(options, jobId)
+        : data.operation === 'start'
+          ? await startFineTuningJob(options, jobId)
+          : await getFineTuningJob(options, jobId);
+
+      const output: Outputs = {
+        ['jobId' as PortId]: {
+          type: 'string',
+          value: job.id,
+        },
+        ['status' as PortId]: {
+          type: 'string',
+          value: job.status,
+        },
+        ['job' as PortId]: {
+          type: 'object',
+          value: job,
+        },
+      };
+
+      if (data.operation !== 'get') {
+        return output;
+      }
+
+      if (job.status === 'SUCCESS' && job.fine_tuned_model) {
+        // So the new model shows up in the chat node's model list
+        await refreshModelsIfMissing(context, job.fine_tuned_model);
+      }
+
+      return {
+        ...output,
+        ['finished' as PortId]: {
+          type: 'boolean',
+          value: isFineTuningJobFinished(job),
+        },
+        ['fineTunedModel' as PortId]: job.status === 'SUCCESS' && job.fine_tuned_model
+          ? { type: 'string', value: job.fine_tuned_model }
+          : { type: 'control-flow-excluded', value: undefined },
+        ['metrics' as PortId]: {
+          type: 'object[]',
+          value: (job.checkpoints ?? []).map(({ step_number, created_at, metrics }) => ({
+            step: step_number,
+            createdAt: created_at,
+            trainLoss: metrics.train_loss ?? null,
+            validLoss: metrics.valid_loss ?? null,
+            validMeanTokenAccuracy: metrics.valid_mean_token_accuracy ?? null,
+          })),
+        },
+      };
+    },
+  };
+
+  return rivet.pluginNodeDefinition(nodeImpl, 'Mistral Fine-Tuning Jobs');
+}
@@ -0,0 +1,344 @@
+import type {
+  ChartNode,
+  EditorDefinition,
+  Inputs,
+  InternalProcessContext,
+  NodeId,
+  NodeInputDefinition,
+  NodeOutputDefinition,
+  NodeUIData,
+  Outputs,
+  PluginNodeImpl,
+  PortId,
+  Rivet,
+} from '@ironclad/rivet-core';
+import { convertToMistralMessages } from '../mistral.js';
+import {
+  createChatModeration,
+  createModeration,
+  MISTRAL_MODERATION_CATEGORIES,
+  type ModerationCategory,
+  type ModerationResponse,
+} from '../impl/moderationApi.js';
+import { withTimeout } from '../impl/mistralApi.js';
+import { getModel, getModelOptions, refreshModels, validateModel, type RegisteredModel } from '../impl/modelRegistry.js';
+import {
+  applyRetryOverrides,
+  getMistralRequestOptions,
+  retryEditors,
+  type RetryOverrideData,
+} from '../impl/pluginConfig.js';
+
+export type MistralModerationNode = ChartNode<'mistralModeration', MistralModerationNodeData>;
+
+export type MistralModerationNodeData = RetryOverrideData & {
+  model: string;
+  useModelInput: boolean;
+  defaultThreshold: number;
+  useDefaultThresholdInput: boolean;
+  // Per-category overrides of the default threshold, keyed by category name
+  categoryThresholds: { key: string; value: string }[];
+  useCategoryThresholdsInput: boolean;
+  // Limit for the whole request; unset means no limit
+  timeoutMs?: number;
+};
+
+type ModerationResult = {
+  flagged: boolean;
+  categories: Record<string, boolean>;
+  scores: Record<string, number>;
+  flaggedCategories: string[];
+};
+
+const isModerationModel = (model: RegisteredModel) => model.capabilities.moderation;
+
+export default function (rivet: typeof Rivet) {
+  const nodeImpl: PluginNodeImpl<MistralModerationNode> = {
+    create(): MistralModerationNode {
+      return {
+        id: rivet.newId<NodeId>(),
+        type: 'mistralModeration',
+        title: 'Mistral Moderation',
+        data: {
+          model: 'mistral-moderation-latest',
+          useModelInput: false,
+          defaultThreshold: 0.5,
+          useDefaultThresholdInput: false,
+          categoryThresholds: [],
+          useCategoryThresholdsInput: false,
+          maxRetries: undefined,
+          retryBaseDelayMs: undefined,
+          timeoutMs: undefined,
+        },
+        visualData: {
+          x: 0,
+          y: 0,
+          width: 250,
+        },
+      };
+    },
+
+    getInputDefinitions(data): NodeInputDefinition[] {
+      const inputs: NodeInputDefinition[] = [];
+
+      if (data.useModelInput) {
+        inputs.push({
+          id: 'model' as PortId,
+          title: 'Model',
+          dataType: 'string',
+          required: false,
+        });
+      }
+
+      inputs.push({
+        id: 'input' as PortId,
+        title: 'Input',
+        dataType: ['string', 'string[]', 'chat-message', 'chat-message[]'],
+        required: true,
+        description: 'Raw text is classified on its own. Chat messages are classified as a conversation, judging the last message in context.',
+      });
+
+      if (data.useDefaultThresholdInput) {
+        inputs.push({
+          id: 'defaultThreshold' as PortId,
+          title: 'Default Threshold',
+          dataType: 'number',
+        });
+      }
+
+      if (data.useCategoryThresholdsInput) {
+        inputs.push({
+          id: 'categoryThresholds' as PortId,
+          title: 'Category Thresholds',
+          dataType: 'object',
+          description: 'An object of category names to thresholds, e.g. { "health": 0.9 }.',
+        });
+      }
+
+      return inputs;
+    },
+
+    getOutputDefinitions(): NodeOutputDefinition[] {
+      return [
+        {
+          id: 'flagged' as PortId,
+          title: 'Flagged',
+          dataType: 'boolean',
+          description: 'True if any category scored at or above its threshold.',
+        },
+        {
+          id: 'categories' as PortId,
+          title: 'Categories',
+          dataType: 'object',
+          description: 'Whether each category was flagged, using the configured thresholds.',
+        },
+        {
+          id: 'scores' as PortId,
+          title: 'Scores',
+          dataType: 'object',
+          description: 'The score of each category. For a list of inputs, the highest score across them.',
+        },
+        {
+          id: 'flaggedCategories' as PortId,
+          title: 'Flagged Categories',
+          dataType: 'string[]',
+        },
+        {
+          id: 'results' as PortId,
+          title: 'Results',
+          dataType: 'object[]',
+          description: 'The flagged state, categories and scores of each input separately.',
+        },
+        {
+          id: 'attempts' as PortId,
+          title: 'Attempts',
+          dataType: 'number',
+          description: 'How many requests were made, including retries.',
+        },
+      ];
+    },
+
+    async getEditors(data, context): Promise<EditorDefinition<MistralModerationNode>[]> {
+      await refreshModels(context);
+
+      return [
+        {
+          type: 'dropdown',
+          label: 'Model',
+          dataKey: 'model',
+          useInputToggleDataKey: 'useModelInput',
+          options: getModelOptions(isModerationModel, data.model),
+        },
+        {
+          type: 'number',
+          label: 'Default Threshold',
+          dataKey: 'defaultThreshold',
+          useInputToggleDataKey: 'useDefaultThresholdInput',
+          min: 0,
+          max: 1,
+          step: 0.05,
+          helperMessage: 'A category is flagged when its score is at or above its threshold.',
+        },
+        {
+          type: 'keyValuePair',
+          label: 'Category Thresholds',
+          dataKey: 'categoryThresholds',
+          useInputToggleDataKey: 'useCategoryThresholdsInput',
+          keyPlaceholder: 'Category',
+          valuePlaceholder: 'Threshold',
+          helperMessage: `Overrides for specific categories. Set a threshold above 1 to ignore a category. Categories: ${MISTRAL_MODERATION_CATEGORIES.join(', ')}.`,
+        },
+        ...retryEditors<MistralModerationNode>(),
+        {
+          type: 'number',
+          label: 'Timeout (ms)',
+          dataKey: 'timeoutMs',
+          min: 0,
+          step: 1000,
+          allowEmpty: true,
+          helperMessage: 'Cancels the request if it takes longer than this. Leave empty for no limit.',
+        },
+      ];
+    },
+
+    getUIData(): NodeUIData {
+      return {
+        contextMenuTitle: 'Mistral Moderation',
+        group: 'AI/Chat (Mistral)',
+        infoBoxBody: `Classifies text or a conversation with Mistral AI's moderation API, and flags it using per-category thresholds so graphs can branch on unsafe content.`,
+        infoBoxTitle: 'Mistral Moderation Node',
+      };
+    },
+
+    getBody(data): string {
+      const modelInfo = getModel(data.model);
+      const overrides = data.categoryThresholds.filter(({ key }) => key.trim()).length;
+      return `Model: ${data.useModelInput ? '(input)' : modelInfo?.displayName ?? data.model}
+Threshold: ${data.useDefaultThresholdInput ? '(input)' : data.defaultThreshold}${overrides ? ` (${overrides} override${overrides === 1 ? '' : 's'})` : ''}`;
+    },
+
+    async process(data, inputs: Inputs, context: InternalProcessContext): Promise<Outputs> {
+      const model = rivet.getInputOrData(data, inputs, 'model', 'string') ?? data.model;
+      const defaultThreshold = rivet.getInputOrData(data, inputs, 'defaultThreshold', 'number') ?? data.defaultThreshold;
+
+      await refreshModels(context);
+      validateModel(model, { capabilities: ['moderation'] });
+
+      const thresholds = getCategoryThresholds(
+        data.useCategoryThresholdsInput
+          ? rivet.coerceTypeOptional(inputs['categoryThresholds' as PortId], 'object') ?? {}
+          : Object.fromEntries(data.categoryThresholds.map(({ key, value }) => [key, value])),
+      );
+
+      let retries = 0;
+      const timeout = withTimeout(context.signal, data.timeoutMs);
+      const mistralOptions = {
+        ...applyRetryOverrides(getMistralRequestOptions(context), data),
+        onRetry: () => retries++,
+        signal: timeout.signal,
+      };
+      const input = inputs['input' as PortId];
+
+      let response: ModerationResponse;
+      try {
+        if (input?.type === 'chat-message' || input?.type === 'chat-message[]') {
+          const messages = input.type === 'chat-message' ? [input.value] : input.value;
+          response = await createChatModeration({
+            ...mistralOptions,
+            model,
+            input: convertToMistralMessages(messages),
+          });
+        } else {
+          const texts = input?.type === 'string' ? [input.value] : rivet.coerceTypeOptional(input, 'string[]');
+          if (!texts?.length) {
+            throw new Error('No input provided to moderate');
+          }
+          response = await createModeration({
+            ...mistralOptions,
+            model,
+            input: texts,
+          });
+        }
+      } finally {
+        timeout.dispose();
+      }
+
+      const results = response.results.map((result) => {
+        const categories: Record<string, boolean> = {};
+        for (const [category, score] of Object.entries(result.category_scores)) {
+          categories[category] = score >= (thresholds[category as ModerationCategory] ?? defaultThreshold);
+        }
+        const flaggedCategories = Object.keys(categories).filter((category) => categories[category]);
+        return {
+          flagged: flaggedCategories.length > 0,
+          categories,
+          scores: result.category_scores as Record<string, number>,
+          flaggedCategories,
+        } satisfies ModerationResult;
+      });
+
+      // Several inputs are summarized as "flagged if any input is", with the highest score per category
+      const combined: ModerationResult = {
+        flagged: results.some((result) => result.flagged),
+        categories: {},
+        scores: {},
+        flaggedCategories: [],
+      };
+      for (const result of results) {
+        for (const [category, score] of Object.entries(result.scores)) {
+          combined.scores[category] = Math.max(combined.scores[category] ?? 0, score);
+          combined.categories[category] = (combined.categories[category] ?? false) || result.categories[category]!;
+        }
+      }
+      combined.flaggedCategories = Object.keys(combined.categories).filter((category) => combined.categories[category]);
+
+      return {
+        ['flagged' as PortId]: {
+          type: 'boolean',
+          value: combined.flagged,
+        },
+        ['categories' as PortId]: {
+          type: 'object',
+          value: combined.categories,
+        },
+        ['scores' as PortId]: {
+          type: 'object',
+          value: combined.scores,
+        },
+        ['flaggedCategories' as PortId]: {
+          type: 'string[]',
+          value: combined.flaggedCategories,
+        },
+        ['results' as PortId]: {
+          type: 'object[]',
+          value: results,
+        },
+        ['attempts' as PortId]: {
+          type: 'number',
+          value: retries + 1,
+        },
+      };
+    },
+  };
+
+  return rivet.pluginNodeDefinition(nodeImpl, 'Mistral Moderation');
+}
+
+function getCategoryThresholds(raw: Record<string, unknown>): Partial<Record<ModerationCategory, number>> {
+  const thresholds: Partial<Record<ModerationCategory, number>> = {};
+  for (const [category, value] of Object.entries(raw)) {
+    const name = category.trim();
+    if (!name) continue;
+
+    if (!(MISTRAL_MODERATION_CATEGORIES as readonly string[]).includes(name)) {
+      throw new Error(`Unknown moderation category "${name}". Expected one of: ${MISTRAL_MODERATION_CATEGORIES.join(', ')}`);
+    }
+
+    const threshold = typeof value === 'number' ? value : parseFloat(String(value));
+    if (!Number.isFinite(threshold)) {
+      throw new Error(`Invalid threshold for moderation category "${name}": ${value}`);
+    }
+    thresholds[name as ModerationCategory] = threshold;
+  }
+  return thresholds;
+}
@@ -0,0 +1,338 @@
+import type {
+  ChartNode,
+  DataValue,
+  EditorDefinition,
+  Inputs,
+  InternalProcessContext,
+  NodeId,
+  NodeInputDefinition,
+  NodeOutputDefinition,
+  NodeUIData,
+  Outputs,
+  PluginNodeImpl,
+  PortId,
+  Rivet,
+} from '@ironclad/rivet-core';
+import { createOcr, type OcrDocument, type OcrResponse } from '../impl/ocrApi.js';
+import { withTimeout } from '../impl/mistralApi.js';
+import { getModel, getModelOptions, refreshModels, validateModel, type RegisteredModel } from '../impl/modelRegistry.js';
+import { calculateCost, formatPrice, getModelPrice } from '../impl/pricing.js';
+import {
+  applyRetryOverrides,
+  getMistralRequestOptions,
+  getPriceOverrides,
+  retryEditors,
+  type RetryOverrideData,
+} from '../impl/pluginConfig.js';
+
+export type MistralOcrNode = ChartNode<'mistralOcr', MistralOcrNodeData>;
+
+export type MistralOcrNodeData = RetryOverrideData & {
+  model: string;
+  useModelInput: boolean;
+  // How a URL or base64 string input should be sent - auto detects images by their extension/media type
+  sourceType: 'auto' | 'document' | 'image';
+  // Media type assumed for binary or raw base64 input
+  mediaType: string;
+  pages: string;
+  usePagesInput: boolean;
+  includeImages: boolean;
+  currency: 'USD' | 'EUR';
+  // Limit for the whole request; unset means no limit
+  timeoutMs?: number;
+};
+
+const isOcrModel = (model: RegisteredModel) => model.capabilities.ocr;
+
+const imageExtensions = /\.(png|jpe?g|gif|webp|avif|bmp|tiff?)(\?.*)?$/i;
+
+export default function (rivet: typeof Rivet) {
+  const nodeImpl: PluginNodeImpl<MistralOcrNode> = {
+    create(): MistralOcrNode {
+      return {
+        id: rivet.newId<NodeId>(),
+        type: 'mistralOcr',
+        title: 'Mistral OCR',
+        data: {
+          model: 'mistral-ocr-latest',
+          useModelInput: false,
+          sourceType: 'auto',
+          mediaType: 'application/pdf',
+          pages: '',
+          usePagesInput: false,
+          includeImages: false,
+          currency: 'USD',
+          maxRetries: undefined,
+          retryBaseDelayMs: undefined,
+          timeoutMs: undefined,
+        },
+        visualData: {
+          x: 0,
+          y: 0,
+          width: 250,
+        },
+      };
+    },
+
+    getInputDefinitions(data): NodeInputDefinition[] {
+      const inputs: NodeInputDefinition[] = [];
+
+      if (data.useModelInput) {
+        inputs.push({
+          id: 'model' as PortId,
+          title: 'Model',
+          dataType: 'string',
+          required: false,
+        });
+      }
+
+      inputs.push({
+        id: 'document' as PortId,
+        title: 'Document',
+        dataType: ['string', 'binary', 'image', 'document'],
+        required: true,
+        description: 'A document or image URL, a base64 data URL or string, or binary, image or document data.',
+      });
+
+      if (data.usePagesInput) {
+        inputs.push({
+          id: 'pages' as PortId,
+          title: 'Pages',
+          dataType: ['number[]', 'string'],
+          description: 'Zero-based page numbers to process, as a list or a string such as "0, 2-4".',
+        });
+      }
+
+      return inputs;
+    },
+
+    getOutputDefinitions(): NodeOutputDefinition[] {
+      return [
+        {
+          id: 'markdown' as PortId,
+          title: 'Markdown',
+          dataType: 'string',
+          description: 'The markdown of all pages, separated by blank lines.',
+        },
+        {
+          id: 'pages' as PortId,
+          title: 'Pages',
+          dataType: 'string[]',
+          description: 'The markdown of each page.',
+        },
+        {
+          id: 'images' as PortId,
+          title: 'Images',
+          dataType: 'object[]',
+          description: 'The images extracted from the document, with their page and position. Includes base64 data if enabled.',
+        },
+        {
+          id: 'pageCount' as PortId,
+          title: 'Page Count',
+          dataType: 'number',
+        },
+        {
+          id: 'usage' as PortId,
+          title: 'Usage',
+          dataType: 'object',
+          description: 'Pages processed, document size and estimated cost.',
+        },
+      ];
+    },
+
+    async getEditors(data, context): Promise<EditorDefinition<MistralOcrNode>[]> {
+      await refreshModels(context);
+
+      return [
+        {
+          type: 'dropdown',
+          label: 'Model',
+          dataKey: 'model',
+          useInputToggleDataKey: 'useModelInput',
+          options: getModelOptions(isOcrModel, data.model),
+        },
+        {
+          type: 'dropdown',
+          label: 'Source Type',
+          dataKey: 'sourceType',
+          options: [
+            { value: 'auto', label: 'Auto-detect' },
+            { value: 'document', label: 'Document' },
+            { value: 'image', label: 'Image' },
+          ],
+          helperMessage: 'Whether a URL or base64 string is a document or an image.',
+        },
+        {
+          type: 'string',
+          label: 'Media Type',
+          dataKey: 'mediaType',
+          helperMessage: 'The media type of binary or raw base64 input, e.g. application/pdf or image/png.',
+        },
+        {
+          type: 'string',
+          label: 'Pages',
+          dataKey: 'pages',
+          useInputToggleDataKey: 'usePagesInput',
+          placeholder: 'All pages',
+          helperMessage: 'Zero-based page numbers, e.g. "0, 2-4".',
+        },
+        {
+          type: 'toggle',
+          label: 'Include Image Data',
+          dataKey: 'includeImages',
+        },
+        {
+          type: 'dropdown',
+          label: 'Currency',
+          dataKey: 'currency',
+          options: [
+            { value: 'USD', label: 'USD ($)' },
+            { value: 'EUR', label: 'EUR (€)' },
+          ],
+        },
+        ...retryEditors<MistralOcrNode>(),
+        {
+          type: 'number',
+          label: 'Timeout (ms)',
+          dataKey: 'timeoutMs',
+          min: 0,
+          step: 1000,
+          allowEmpty: true,
+          helperMessage: 'Cancels the request if it takes longer than this. Large documents can take minutes. Leave empty for no limit.',
+        },
+      ];
+    },
+
+    getUIData(): NodeUIData {
+      return {
+        contextMenuTitle: 'Mistral OCR',
+        group: 'AI/Documents (Mistral)',
+        infoBoxBody: `Extracts the text of a document or image as markdown using Mistral AI's OCR API, along with any images it contains.`,
+        infoBoxTitle: 'Mistral OCR Node',
+      };
+    },
+
+    getBody(data): string {
+      const modelInfo = getModel(data.model);
+      return `Model: ${data.useModelInput ? '(input)' : modelInfo?.displayName ?? data.model}
+Pages: ${data.usePagesInput ? '(input)' : data.pages.trim() || 'All'}
+${formatPrice(getModelPrice(data.model, data.currency).perPage, data.currency)}/page`;
+    },
+
+    async process(data, inputs: Inputs, context: InternalProcessContext): Promise<Outputs> {
+      const model = rivet.getInputOrData(data, inputs, 'model', 'string') ?? data.model;
+
+      await refreshModels(context);
+      validateModel(model, { capabilities: ['ocr'] });
+
+      const documentInput = inputs['document' as PortId];
+      if (!documentInput) {
+        throw new Error('No document provided');
+      }
+      const document = await getOcrDocument(rivet, documentInput, data);
+
+      const pagesInput = data.usePagesInput ? inputs['pages' as PortId] : undefined;
+      const pages = pagesInput?.type === 'number[]'
+        ? pagesInput.value
+        : parsePages(pagesInput ? rivet.coerceType(pagesInput, 'string') : data.pages);
+
+      let retries = 0;
+      const timeout = withTimeout(context.signal, data.timeoutMs);
+      let response: OcrResponse;
+      try {
+        response = await createOcr({
+          ...applyRetryOverrides(getMistralRequestOptions(context), data),
+          onRetry: () => retries++,
+          signal: timeout.signal,
+          model,
+          document,
+          pages,
+          include_image_base64: data.includeImages,
+        });
+      } finally {
+        timeout.dispose();
+      }
+
+      const pageCount = response.usage_info?.pages_processed ?? response.pages.length;
+
+      // OCR is priced per page rather than per token
+      const totalCostCents = calculateCost(model, { pages: pageCount }, data.currency, getPriceOverrides(context));
+
+      return {
+        ['markdown' as PortId]: {
+          type: 'string',
+          value: response.pages.map((page) => page.markdown).join('\n\n'),
+        },
+        ['pages' as PortId]: {
+          type: 'string[]',
+          value: response.pages.map((page) => page.markdown),
+        },
+        ['images' as PortId]: {
+          type: 'object[]',
+          value: response.pages.flatMap((page) => page.images.map((image) => ({ page: page.index, ...image }))),
+        },
+        ['pageCount' as PortId]: {
+          type: 'number',
+          value: pageCount,
+        },
+        ['usage' as PortId]: {
+          type: 'object',
+          value: {
+            pagesProcessed: pageCount,
+            docSizeBytes: response.usage_info?.doc_size_bytes ?? null,
+            estimatedCostCents: totalCostCents,
+            currency: data.currency,
+            attempts: retries + 1,
+          },
+        },
+      };
+    },
+  };
+
+  return rivet.pluginNodeDefinition(nodeImpl, 'Mistral OCR');
+}
+
+async function getOcrDocument(rivet: typeof Rivet, input: DataValue, data: MistralOcrNodeData): Promise<OcrDocument> {
+  const toDocument = (url: string, isImage: boolean): OcrDocument =>
+    isImage ? { type: 'image_url', image_url: url } : { type: 'document_url', document_url: url };
+
+  const toDataUrl = async (mediaType: string, bytes: Uint8Array) =>
+    `data:${mediaType};base64,${await rivet.uint8ArrayToBase64(bytes)}`;
+
+  const isImage = (mediaTypeOrUrl: string) => data.sourceType === 'auto'
+    ? mediaTypeOrUrl.startsWith('image/') || mediaTypeOrUrl.startsWith('data:image/') || imageExtensions.test(mediaTypeOrUrl)
+    : data.sourceType === 'image';
+
+  switch (input.type) {
+    case 'image':
+      return toDocument(await toDataUrl(input.value.mediaType, input.value.data), true);
+    case 'document':
+      return toDocument(await toDataUrl(input.value.mediaType, input.value.data), false);
+    case 'binary':
+      return toDocument(await toDataUrl(data.mediaType, input.value), isImage(data.mediaType));
+    default: {
+      const value = rivet.coerceType(input, 'string').trim();
+      if (/^(https?:|data:)/.test(value)) {
+        return toDocument(value, isImage(value));
+      }
+      // Anything else is taken to be raw base64 data of the configured media type
+      return toDocument(`data:${data.mediaType};base64,${value}`, isImage(data.mediaType));
+    }
+  }
+}
+
+function parsePages(pages: string): number[] | undefined {
+  if (!pages.trim()) {
+    return undefined;
+  }
+
+  return pages.split(',').flatMap((part) => {
+    const range = part.trim().match(/^(\d+)\s*(?:-\s*(\d+))?$/);
+    if (!range) {
+      throw new Error(`Invalid page selection "${part.trim()}". Use zero-based page numbers such as "0, 2-4".`);
+    }
+    const start = Number(range[1]);
+    const end = range[2] === undefined ? start : Number(range[2]);
+    return Array.from({ length: Math.max(end - start + 1, 0) }, (_, i) => start + i);
+  });
+}
@@ -0,0 +1,182 @@
+import type {
+  ChartNode,
+  DataValue,
+  EditorDefinition,
+  Inputs,
+  InternalProcessContext,
+  NodeId,
+  NodeInputDefinition,
+  NodeOutputDefinition,
+  NodeUIData,
+  Outputs,
+  PluginNodeImpl,
+  PortId,
+  Rivet,
+} from '@ironclad/rivet-core';
+import { uploadFile, type FilePurpose } from '../impl/filesApi.js';
+import {
+  applyRetryOverrides,
+  getMistralRequestOptions,
+  retryEditors,
+  type RetryOverrideData,
+} from '../impl/pluginConfig.js';
+
+export type MistralUploadFileNode = ChartNode<'mistralUploadFile', MistralUploadFileNodeData>;
+
+export type MistralUploadFileNodeData = RetryOverrideData & {
+  purpose: FilePurpose;
+  filename: string;
+  useFilenameInput: boolean;
+  // Media type of binary and string data; image and document data carry their own
+  mediaType: string;
+};
+
+export default function (rivet: typeof Rivet) {
+  const nodeImpl: PluginNodeImpl<MistralUploadFileNode> = {
+    create(): MistralUploadFileNode {
+      return {
+        id: rivet.newId<NodeId>(),
+        type: 'mistralUploadFile',
+        title: 'Mistral Upload File',
+        data: {
+          purpose: 'ocr',
+          filename: 'document.pdf',
+          useFilenameInput: false,
+          mediaType: 'application/pdf',
+          maxRetries: undefined,
+          retryBaseDelayMs: undefined,
+        },
+        visualData: {
+          x: 0,
+          y: 0,
+          width: 250,
+        },
+      };
+    },
+
+    getInputDefinitions(data): NodeInputDefinition[] {
+      const inputs: NodeInputDefinition[] = [
+        {
+          id: 'data' as PortId,
+          title: 'Data',
+          dataType: ['binary', 'document', 'image', 'string'],
+          required: true,
+          description: 'The contents of the file. Strings are uploaded as UTF-8 text, e.g. JSONL for batch or fine-tuning.',
+        },
+      ];
+
+      if (data.useFilenameInput) {
+        inputs.push({
+          id: 'filename' as PortId,
+          title: 'File Name',
+          dataType: 'string',
+          required: true,
+        });
+      }
+
+      return inputs;
+    },
+
+    getOutputDefinitions(): NodeOutputDefinition[] {
+      return [
+        {
+          id: 'fileId' as PortId,
+          title: 'File ID',
+          dataType: 'string',
+        },
+        {
+          id: 'file' as PortId,
+          title: 'File',
+          dataType: 'object',
+          description: 'The uploaded file\'s id, name, size, purpose and line count.',
+        },
+      ];
+    },
+
+    getEditors(): EditorDefinition<MistralUploadFileNode>[] {
+      return [
+        {
+          type: 'dropdown',
+          label: 'Purpose',
+          dataKey: 'purpose',
+          options: [
+            { value: 'ocr', label: 'OCR' },
+            { value: 'batch', label: 'Batch' },
+            { value: 'fine-tune', label: 'Fine-tuning' },
+          ],
+        },
+        {
+          type: 'string',
+          label: 'File Name',
+          dataKey: 'filename',
+          useInputToggleDataKey: 'useFilenameInput',
+        },
+        {
+          type: 'string',
+          label: 'Media Type',
+          dataKey: 'mediaType',
+          helperMessage: 'The media type of binary or string data, e.g. application/pdf or application/jsonl.',
+        },
+        ...retryEditors<MistralUploadFileNode>(),
+      ];
+    },
+
+    getUIData(): NodeUIData {
+      return {
+        contextMenuTitle: 'Mistral Upload File',
+        group: 'AI/Files (Mistral)',
+        infoBoxBody: `Uploads a file to Mistral for OCR, batch jobs or fine-tuning, and outputs its file id.`,
+        infoBoxTitle: 'Mistral Upload File Node',
+      };
+    },
+
+    getBody(data): string {
+      return `${data.useFilenameInput ? '(input)' : data.filename}
+Purpose: ${data.purpose}`;
+    },
+
+    async process(data, inputs: Inputs, context: InternalProcessContext): Promise<Outputs> {
+      const filename = (rivet.getInputOrData(data, inputs, 'filename', 'string') ?? data.filename).trim();
+      if (!filename) {
+        throw new Error('No file name provided');
+      }
+
+      const dataInput = inputs['data' as PortId];
+      if (!dataInput) {
+        throw new Error('No file data provided');
+      }
+
+      const file = await uploadFile({
+        ...applyRetryOverrides(getMistralRequestOptions(context), data),
+        file: toBlob(rivet, dataInput, data.mediaType),
+        filename,
+        purpose: data.purpose,
+      });
+
+      return {
+        ['fileId' as PortId]: {
+          type: 'string',
+          value: file.id,
+        },
+        ['file' as PortId]: {
+          type: 'object',
+          value: file,
+        },
+      };
+    },
+  };
+
+  return rivet.pluginNodeDefinition(nodeImpl, 'Mistral Upload File');
+}
+
+function toBlob(rivet: typeof Rivet, input: DataValue, mediaType: string): Blob {
+  switch (input.type) {
+    case 'binary':
+      return new Blob([input.value], { type: mediaType });
+    case 'image':
+    case 'document':
+      return new Blob([input.value.data], { type: input.value.mediaType });
+    default:
+      return new Blob([rivet.coerceType(input, 'string')], { type: mediaType });
+  }
+}